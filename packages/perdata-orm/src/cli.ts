@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+import { writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { Migrator } from './migrator'
+import { DataSource } from './source'
+import { getDataSourceConfig } from './util/environment'
+
+const usage = `Usage: perdata <command> [options]
+
+Commands:
+  migrate latest    Apply every pending migrations (default)
+  migrate up        Apply next pending migration
+  migrate down      Revert last applied migrations
+  migrate status    Show every migration and whether it has been applied
+  migrate unlock    Release migration lock left by a stopped process
+  introspect        Print entity schema of every table in database
+
+Options:
+  --dir <path>      Directory containing migration files (default: ./migrations)
+  --steps <number>  Number of migrations reverted by "migrate down" (default: 1)
+  --out <path>      File written by "introspect" instead of standard output
+
+TypeScript migration files, e.g. generated by "generateMigration", require a
+loader such as tsx: NODE_OPTIONS="--import tsx" perdata migrate
+`
+
+async function migrate(
+  migrator: Migrator,
+  action: string,
+  steps: number,
+): Promise<void> {
+  switch (action) {
+    case 'latest':
+      return report('Applied', await migrator.latest())
+    case 'up':
+      return report('Applied', await migrator.up())
+    case 'down':
+      return report('Reverted', await migrator.down(steps))
+    case 'status':
+      return (await migrator.status()).forEach((migration) =>
+        console.log(
+          `${migration.applied ? 'applied' : 'pending'}  ${migration.name}`,
+        ),
+      )
+    case 'unlock':
+      await migrator.unlock()
+      return console.log('Migration lock released')
+  }
+  throw new Error(`Unknown migrate action "${action}"`)
+}
+
+async function introspect(
+  source: DataSource,
+  out: string | undefined,
+): Promise<void> {
+  const code = await source.introspect()
+  if (out === undefined) {
+    process.stdout.write(code)
+  } else {
+    await writeFile(out, code)
+    console.log(`Written ${out}`)
+  }
+}
+
+function report(verb: string, names: string[]): void {
+  if (names.length === 0) {
+    console.log('Nothing to do')
+  }
+  names.forEach((name) => console.log(`${verb} ${name}`))
+}
+
+async function main(args: string[]): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string', default: './migrations' },
+      steps: { type: 'string', default: '1' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  const [command, action = 'latest'] = positionals
+  if (values.help || command === undefined) {
+    console.log(usage)
+    return
+  }
+  if (command !== 'migrate' && command !== 'introspect') {
+    throw new Error(`Unknown command "${command}"`)
+  }
+
+  const steps = Number(values.steps)
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('Option "--steps" must be a positive integer')
+  }
+
+  const source = new DataSource(getDataSourceConfig())
+  try {
+    if (command === 'migrate') {
+      await migrate(source.migrator(values.dir), action, steps)
+    } else {
+      await introspect(source, values.out)
+    }
+  } finally {
+    await source.close()
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,160 @@
+import knex, { Knex } from 'knex'
+import { number, string } from 'pertype'
+import {
+  MysqlDialect,
+  PostgresDialect,
+  SqliteDialect,
+  getDialect,
+} from './dialect'
+import { MetadataRegistry } from './metadata'
+import { entity, generate, id } from './schema'
+
+describe('getDialect', () => {
+  it('Should return postgres dialect for "pg" client', () => {
+    const instance = knex({ client: 'pg' })
+    expect(getDialect(instance.queryBuilder())).toBeInstanceOf(PostgresDialect)
+  })
+
+  it('Should return mysql dialect for "mysql2" client', () => {
+    const instance = knex({ client: 'mysql2' })
+    expect(getDialect(instance.queryBuilder())).toBeInstanceOf(MysqlDialect)
+  })
+
+  it('Should return sqlite dialect for "sqlite3" client', () => {
+    const instance = knex({ client: 'sqlite3', useNullAsDefault: true })
+    expect(getDialect(instance.queryBuilder())).toBeInstanceOf(SqliteDialect)
+  })
+})
+
+describe('Dialect', () => {
+  it('Should write collection as JSON when database has no array type', () => {
+    const values = { key: 'a', tags: ['b', 'c'], data: Buffer.from('d') }
+    expect(new PostgresDialect().toRow(values)).toBe(values)
+    expect(new SqliteDialect().toRow(values)).toStrictEqual({
+      ...values,
+      tags: '["b","c"]',
+    })
+    expect(new MysqlDialect().toRow(values)).toHaveProperty('tags', '["b","c"]')
+  })
+})
+
+describe('MysqlDialect', () => {
+  const Item = entity('item', {
+    id: number().optional().decorate(id(), generate()),
+    name: string(),
+  })
+  const table = new MetadataRegistry().get(Item)
+
+  it('Should map generated ids spaced by auto increment step', async () => {
+    const instance = knex({ client: 'mysql2' })
+    const queries = connect(instance, (sql) => {
+      if (sql.includes('@@auto_increment_increment')) return [{ step: 2 }]
+      if (sql.startsWith('insert')) return { insertId: 10 }
+      return [
+        { id: 14, name: 'c' },
+        { id: 10, name: 'a' },
+        { id: 12, name: 'b' },
+      ]
+    })
+
+    const rows = await new MysqlDialect().insertMany(
+      instance.queryBuilder(),
+      table,
+      [{ name: 'a' }, { name: 'b' }, { name: 'c' }],
+    )
+    expect(rows).toStrictEqual([
+      { id: 10, name: 'a' },
+      { id: 12, name: 'b' },
+      { id: 14, name: 'c' },
+    ])
+    expect(queries).toHaveLength(3)
+    expect(queries[2]?.bindings).toStrictEqual([10, 12, 14])
+  })
+
+  it('Should insert one by one when only some ids are provided', async () => {
+    const instance = knex({ client: 'mysql2' })
+    let insertId = 0
+    const queries = connect(instance, (sql, bindings) => {
+      if (sql.startsWith('insert')) return { insertId: ++insertId }
+      return [{ id: bindings[0], name: String(bindings[0]) }]
+    })
+
+    const rows = await new MysqlDialect().insertMany(
+      instance.queryBuilder(),
+      table,
+      [{ name: '1' }, { id: 5, name: '5' }],
+    )
+    expect(rows).toStrictEqual([
+      { id: 1, name: '1' },
+      { id: 5, name: '5' },
+    ])
+    expect(queries.map((query) => query.sql.split(' ')[0])).toStrictEqual([
+      'insert',
+      'select',
+      'insert',
+      'select',
+    ])
+  })
+})
+
+describe('PostgresDialect', () => {
+  const Item = entity('item', {
+    id: number().decorate(id()),
+    name: string(),
+  })
+  const table = new MetadataRegistry().get(Item)
+
+  it('Should match returned rows by provided ids', async () => {
+    const instance = knex({ client: 'pg' })
+    connect(instance, () => [
+      { id: 2, name: 'b' },
+      { id: 1, name: 'a' },
+    ])
+
+    const rows = await new PostgresDialect().insertMany(
+      instance.queryBuilder(),
+      table,
+      [
+        { id: 1, name: 'a' },
+        { id: 2, name: 'b' },
+      ],
+    )
+    expect(rows).toStrictEqual([
+      { id: 1, name: 'a' },
+      { id: 2, name: 'b' },
+    ])
+  })
+})
+
+interface Query {
+  readonly sql: string
+  readonly bindings: unknown[]
+}
+
+/**
+ * Replace connection of given knex instance with a fake one, responding each
+ * query with the result of `respond`
+ *
+ * @returns Queries received by the fake connection
+ */
+function connect(
+  instance: Knex,
+  respond: (sql: string, bindings: unknown[]) => unknown,
+): Query[] {
+  const queries: Query[] = []
+  const query = (
+    options: { sql?: string; text?: string; values?: unknown[] },
+    ...args: unknown[]
+  ): void => {
+    // mysql passes bindings separately, while pg passes it within options
+    const callback = args.pop() as (error: unknown, result: unknown) => void
+    const sql = options.sql ?? options.text ?? ''
+    const bindings = (args[0] ?? options.values ?? []) as unknown[]
+    queries.push({ sql, bindings })
+    const result = respond(sql, bindings)
+    callback(null, options.text === undefined ? result : { rows: result })
+  }
+  instance.client.acquireConnection = async () => ({ query })
+  instance.client.releaseConnection = async () => undefined
+  return queries
+}
@@ -0,0 +1,468 @@
+import { Knex } from 'knex'
+import { AnyRecord } from 'pertype'
+import { TableMetadata } from './metadata'
+
+/**
+ * Database specific implementation of queries that cannot be written the same
+ * way across every supported database
+ */
+export abstract class Dialect {
+  /** Maximum number of bound parameters in a single query */
+  public abstract readonly parameterLimit: number
+
+  /** Whether database has array column type to store collection */
+  public abstract readonly arrayType: boolean
+
+  /**
+   * Convert column values of a row into values written by this database,
+   * collection is written as JSON when database do not have array type
+   *
+   * @param values Column values of the row
+   * @returns Column values accepted by the driver
+   */
+  public toRow(values: AnyRecord): AnyRecord {
+    if (this.arrayType) {
+      return values
+    }
+    return Object.fromEntries(
+      Object.entries(values).map(([name, value]) => [
+        name,
+        Array.isArray(value) ? JSON.stringify(value) : value,
+      ]),
+    )
+  }
+
+  /**
+   * Insert a row into given table
+   *
+   * @param connection Connection used to run the query
+   * @param table {@link TableMetadata} to insert into
+   * @param values Column values to be inserted
+   * @returns Inserted rows with all base columns
+   */
+  public async insert(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord,
+  ): Promise<AnyRecord[]> {
+    return this.insertMany(connection, table, [values])
+  }
+
+  /**
+   * Insert several rows into given table using multi-row inserts, split into
+   * several queries to respect {@link parameterLimit}
+   *
+   * @param connection Connection used to run the query
+   * @param table {@link TableMetadata} to insert into
+   * @param values Column values of every row, all of them must have the same
+   *   columns
+   * @returns Inserted rows with all base columns, in the same order as values
+   */
+  public abstract insertMany(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord[],
+  ): Promise<AnyRecord[]>
+
+  /**
+   * Insert a row, or update the existing row when it conflicts with given
+   * unique columns
+   *
+   * @param connection Connection used to run the query
+   * @param table {@link TableMetadata} to insert into
+   * @param values Column values to be inserted
+   * @param conflict Column names of unique constraint used to detect conflict
+   * @param update Column names updated on conflict, every inserted column when
+   *   undefined and none when empty
+   * @returns Inserted or existing row with all base columns
+   */
+  public abstract upsert(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord,
+    conflict: string[],
+    update: string[] | undefined,
+  ): Promise<AnyRecord[]>
+
+  /**
+   * Update a single row matching given condition
+   *
+   * @param connection Connection used to run the query
+   * @param table {@link TableMetadata} to update
+   * @param condition Column values used to find the row
+   * @param values Column values to be updated
+   * @returns Updated rows with all base columns
+   */
+  public abstract update(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+    values: AnyRecord,
+  ): Promise<AnyRecord[]>
+
+  /**
+   * Delete a single row matching given condition
+   *
+   * @param connection Connection used to run the query
+   * @param table {@link TableMetadata} to delete from
+   * @param condition Column values used to find the row
+   * @returns Deleted rows with all base columns
+   */
+  public abstract delete(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+  ): Promise<AnyRecord[]>
+}
+
+/** Dialect for database that support `returning` clause */
+export class PostgresDialect extends Dialect {
+  public override readonly parameterLimit: number = 65535
+  public override readonly arrayType: boolean = true
+
+  /**
+   * Whether rows returned by multi-row insert follow the order of inserted
+   * rows. PostgreSQL returns rows of `insert ... values` in order, although
+   * its documentation does not guarantee it
+   */
+  protected readonly orderedReturning: boolean = true
+
+  /**
+   * Rows providing its ids are matched with returned rows by its ids. Rows
+   * with generated id rely on {@link orderedReturning}, otherwise they are
+   * inserted one by one
+   */
+  public override async insertMany(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord[],
+  ): Promise<AnyRecord[]> {
+    const idNames = table.ids.map((column) => column.columnName)
+    const provided = values.every((row) =>
+      idNames.every((name) => row[name] !== undefined),
+    )
+    const chunks =
+      provided || this.orderedReturning
+        ? chunkRows(values, this.parameterLimit)
+        : values.map((row) => [row])
+
+    const rows: AnyRecord[] = []
+    for (const chunk of chunks) {
+      const inserted: AnyRecord[] = await connection
+        .clone()
+        .from(table.name)
+        .insert(chunk.map((row) => this.toRow(row)))
+        .returning(table.baseColumns.map((column) => column.columnName))
+      rows.push(...(provided ? matchRows(table, chunk, inserted) : inserted))
+    }
+    return rows
+  }
+
+  public override async upsert(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord,
+    conflict: string[],
+    update: string[] | undefined,
+  ): Promise<AnyRecord[]> {
+    const columnNames = table.baseColumns.map((column) => column.columnName)
+    const query = connection
+      .clone()
+      .from(table.name)
+      .insert(this.toRow(values))
+      .onConflict(conflict)
+    const rows: AnyRecord[] = await (
+      update?.length === 0 ? query.ignore() : query.merge(update)
+    ).returning(columnNames)
+    if (rows.length > 0) {
+      return rows
+    }
+    // existing row is not returned when nothing is updated
+    return connection
+      .clone()
+      .from(table.name)
+      .select(columnNames)
+      .where(getConflictCondition(values, conflict))
+      .limit(1)
+  }
+
+  public override async update(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+    values: AnyRecord,
+  ): Promise<AnyRecord[]> {
+    return connection
+      .clone()
+      .from(table.name)
+      .update(this.toRow(values))
+      .where(condition)
+      .returning(table.baseColumns.map((column) => column.columnName))
+  }
+
+  public override async delete(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+  ): Promise<AnyRecord[]> {
+    return connection
+      .clone()
+      .from(table.name)
+      .delete()
+      .where(condition)
+      .returning(table.baseColumns.map((column) => column.columnName))
+  }
+}
+
+/** SQLite support `returning` clause since version 3.35 */
+export class SqliteDialect extends PostgresDialect {
+  /** Default limit of SQLite compiled before version 3.32 */
+  public override readonly parameterLimit: number = 999
+  public override readonly arrayType: boolean = false
+  /** SQLite documents order of returned rows as arbitrary */
+  protected override readonly orderedReturning: boolean = false
+}
+
+/**
+ * Dialect for MySQL and MariaDB which do not support `returning` clause, rows
+ * are selected again by its id after being inserted or updated
+ */
+export class MysqlDialect extends Dialect {
+  public override readonly parameterLimit: number = 65535
+  public override readonly arrayType: boolean = false
+
+  public override async insertMany(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord[],
+  ): Promise<AnyRecord[]> {
+    const idNames = table.ids.map((column) => column.columnName)
+    const provided = values.every((row) =>
+      idNames.every((name) => row[name] !== undefined),
+    )
+    const generated =
+      table.ids.length === 1 &&
+      table.id.generated &&
+      values.every((row) => row[table.id.columnName] === undefined)
+    if (!provided && !generated) {
+      // inserted id can only be trusted for a single row when ids are mixed
+      return this.insertEach(connection, table, values)
+    }
+
+    const step = generated ? await this.readIncrement(connection) : 0
+    const rows: AnyRecord[] = []
+    for (const chunk of chunkRows(values, this.parameterLimit)) {
+      const [insertId]: unknown[] = await connection
+        .clone()
+        .from(table.name)
+        .insert(chunk.map((row) => this.toRow(row)))
+      // ids generated by multi-row insert are spaced by auto increment step
+      // starting from the first row
+      const conditions = chunk.map((row, index) =>
+        generated
+          ? { [table.id.columnName]: Number(insertId) + index * step }
+          : pickColumns(row, idNames),
+      )
+      const selected = await this.selectAll(connection, table, conditions)
+      rows.push(...matchRows(table, conditions, selected))
+    }
+    return rows
+  }
+
+  public override async upsert(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord,
+    conflict: string[],
+    update: string[] | undefined,
+  ): Promise<AnyRecord[]> {
+    // MySQL detects conflict by any unique key, given columns are only used
+    // to select the row afterward
+    const query = connection
+      .clone()
+      .from(table.name)
+      .insert(this.toRow(values))
+      .onConflict(conflict)
+    await (update?.length === 0 ? query.ignore() : query.merge(update))
+    return this.select(
+      connection,
+      table,
+      getConflictCondition(values, conflict),
+    )
+  }
+
+  public override async update(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+    values: AnyRecord,
+  ): Promise<AnyRecord[]> {
+    await connection
+      .clone()
+      .from(table.name)
+      .update(this.toRow(values))
+      .where(condition)
+      .limit(1)
+    return this.select(connection, table, condition)
+  }
+
+  public override async delete(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+  ): Promise<AnyRecord[]> {
+    const rows = await this.select(connection, table, condition)
+    await connection.clone().from(table.name).delete().where(condition).limit(1)
+    return rows
+  }
+
+  private async select(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    condition: AnyRecord,
+  ): Promise<AnyRecord[]> {
+    return connection
+      .clone()
+      .from(table.name)
+      .select(table.baseColumns.map((column) => column.columnName))
+      .where(condition)
+      .limit(1)
+  }
+
+  /** Select rows matching any of given conditions */
+  private async selectAll(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    conditions: AnyRecord[],
+  ): Promise<AnyRecord[]> {
+    const query = connection
+      .clone()
+      .from(table.name)
+      .select(table.baseColumns.map((column) => column.columnName))
+    return table.ids.length === 1
+      ? query.whereIn(
+          table.id.columnName,
+          conditions.map((condition) => condition[table.id.columnName]),
+        )
+      : query.where((builder) =>
+          conditions.forEach((condition) => builder.orWhere(condition)),
+        )
+  }
+
+  /** Insert rows one by one, each selected by its provided or inserted id */
+  private async insertEach(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    values: AnyRecord[],
+  ): Promise<AnyRecord[]> {
+    const rows: AnyRecord[] = []
+    for (const row of values) {
+      const [insertId]: unknown[] = await connection
+        .clone()
+        .from(table.name)
+        .insert(this.toRow(row))
+      const condition = Object.fromEntries(
+        table.ids.map((column) => [
+          column.columnName,
+          row[column.columnName] ?? Number(insertId),
+        ]),
+      )
+      rows.push(...(await this.select(connection, table, condition)))
+    }
+    return rows
+  }
+
+  /** Read `auto_increment_increment` used to space generated ids */
+  private async readIncrement(connection: Knex.QueryBuilder): Promise<number> {
+    const [setting]: AnyRecord[] = await connection
+      .clone()
+      .select(connection.client.raw('@@auto_increment_increment as step'))
+    return Number(setting?.['step'] ?? 1)
+  }
+}
+
+/**
+ * Split rows into chunks, so the number of bound parameters of each chunk do
+ * not exceed given limit
+ */
+function chunkRows(rows: AnyRecord[], parameterLimit: number): AnyRecord[][] {
+  // rows without any column can only be inserted one by one as default values
+  const columnCount = Object.keys(rows[0] ?? {}).length
+  const size =
+    columnCount > 0 ? Math.max(1, Math.floor(parameterLimit / columnCount)) : 1
+  const chunks: AnyRecord[][] = []
+  for (let index = 0; index < rows.length; index += size) {
+    chunks.push(rows.slice(index, index + size))
+  }
+  return chunks
+}
+
+/** Pick values of given columns */
+function pickColumns(row: AnyRecord, names: string[]): AnyRecord {
+  return Object.fromEntries(names.map((name) => [name, row[name]]))
+}
+
+/**
+ * Pair each of given rows with the written row of the same ids
+ *
+ * @param table {@link TableMetadata} of the rows
+ * @param rows Rows holding value of every id column
+ * @param written Rows returned or selected from database, in any order
+ * @returns Written rows in the same order as given rows
+ */
+function matchRows(
+  table: TableMetadata,
+  rows: AnyRecord[],
+  written: AnyRecord[],
+): AnyRecord[] {
+  const idNames = table.ids.map((column) => column.columnName)
+  const byKey = new Map(written.map((row) => [getRowKey(row, idNames), row]))
+  return rows.map((row) => {
+    const match = byKey.get(getRowKey(row, idNames))
+    if (match === undefined) {
+      throw new Error(`Inserted row of "${table.name}" cannot be selected`)
+    }
+    return match
+  })
+}
+
+/** Key identifying a row by values of given columns */
+function getRowKey(row: AnyRecord, names: string[]): string {
+  return JSON.stringify(names.map((name) => String(row[name])))
+}
+
+/** Condition matching the row conflicting with given values */
+function getConflictCondition(
+  values: AnyRecord,
+  conflict: string[],
+): AnyRecord {
+  return Object.fromEntries(
+    conflict.map((name) => [name, values[name] ?? null]),
+  )
+}
+
+const postgres = new PostgresDialect()
+const sqlite = new SqliteDialect()
+const mysql = new MysqlDialect()
+
+/**
+ * Get {@link Dialect} used by given connection
+ *
+ * @param connection Connection to be checked
+ * @returns {@link Dialect} for the connection driver
+ */
+export function getDialect(connection: Knex.QueryBuilder): Dialect {
+  switch (connection.client.driverName) {
+    case 'pg':
+      return postgres
+    case 'sqlite3':
+    case 'better-sqlite3':
+      return sqlite
+    case 'mysql':
+    case 'mysql2':
+      return mysql
+  }
+  throw new Error(
+    `Database driver "${connection.client.driverName}" is not supported`,
+  )
+}
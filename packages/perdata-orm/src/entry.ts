@@ -1,3 +1,4 @@
+import { Knex } from 'knex'
 import {
   ColumnMetadata,
   RelationColumnMetadata,
@@ -12,14 +13,14 @@ import {
   RawSingleObject,
   RawSingleValue,
   RawValue,
+  getColumnValue,
+  isRawEqual,
 } from './util/raw'
 
 export class EntryRegistry {
   private readonly storage: MapSet<TableMetadata, Entry> = new MapSet()
-  private readonly mapId: SafeMap<
-    TableMetadata,
-    BiMap<NonNullable<Raw>, Entry>
-  > = new SafeMap(() => new BiMap())
+  private readonly mapId: SafeMap<TableMetadata, BiMap<string, Entry>> =
+    new SafeMap(() => new BiMap())
 
   public get tables(): IterableIterator<TableMetadata> {
     return this.storage.keys()
@@ -35,8 +36,18 @@ export class EntryRegistry {
     return this.storage.get(table).values().toArray()
   }
 
-  public findById(table: TableMetadata, id: Raw): Entry | undefined {
-    return id !== undefined ? this.mapId.get(table).getByKey(id) : undefined
+  /**
+   * Find entry by its identity key
+   *
+   * @param table {@link TableMetadata} of the entry
+   * @param key Identity key created by {@link createKey}
+   * @returns {@link Entry} if found, undefined otherwise
+   */
+  public findByKey(
+    table: TableMetadata,
+    key: string | undefined,
+  ): Entry | undefined {
+    return key !== undefined ? this.mapId.get(table).getByKey(key) : undefined
   }
 
   public instantiate(
@@ -52,31 +63,66 @@ export class EntryRegistry {
     value: RawSingleObject,
   ): Entry | undefined {
     if (value !== undefined) {
-      const id = value?.[table.id.name]
-      const entry = this.findById(table, id) ?? this.create(table)
+      const key = createKey(table.ids.map((column) => value[column.name]))
+      const entry = this.findByKey(table, key) ?? this.create(table)
       entry.value = value
       return entry
     }
     return undefined
   }
 
+  /**
+   * Find entry referenced by given value. Value is only assigned into entry
+   * not yet initialized, existing entry is only referenced by its id
+   *
+   * @param table {@link TableMetadata} of the entry
+   * @param value Value of referenced entry
+   * @returns {@link Entry} if value is defined, undefined otherwise
+   */
+  public reference(
+    table: TableMetadata,
+    value: RawSingleObject,
+  ): Entry | undefined {
+    if (value !== undefined) {
+      const key = createKey(table.ids.map((column) => value[column.name]))
+      const entry = this.findByKey(table, key)
+      if (entry?.initialized) {
+        return entry
+      }
+    }
+    return this.instantiate(table, value)
+  }
+
   public registerId(entry: Entry): void {
     this.ensure(entry)
 
     const table = entry.table
     const mapId = this.mapId.get(table)
-    const id = entry.id.value
-    if (id !== undefined) {
-      const oldEntry = mapId.getByKey(id)
+    const key = entry.key
+    if (key !== undefined) {
+      const oldEntry = mapId.getByKey(key)
       if (oldEntry !== undefined && oldEntry !== entry) {
         throw new Error('Cannot register entry, id key already exists')
       }
-      mapId.setByKey(id, entry)
+      mapId.setByKey(key, entry)
     } else {
       mapId.deleteByValue(entry)
     }
   }
 
+  /**
+   * Forget given entries, so they can be garbage collected once no longer
+   * referenced. Released entries are no longer found by its id
+   *
+   * @param entries Entries to be released
+   */
+  public release(entries: Entry[]): void {
+    entries.forEach((entry) => {
+      this.storage.get(entry.table).delete(entry)
+      this.mapId.get(entry.table).deleteByValue(entry)
+    })
+  }
+
   private ensure(entry: Entry): void {
     if (!this.storage.get(entry.table).has(entry)) {
       throw new Error('Entry is not created from this registry')
@@ -84,17 +130,37 @@ export class EntryRegistry {
   }
 }
 
-export type NullOf<T> = T extends undefined
-  ? null
-  : { [K in keyof T]: NullOf<T[K]> }
+/**
+ * Create identity key from id values, the key is the same for the same values
+ * in the same order
+ *
+ * @param values Value of every id column
+ * @returns Identity key, or undefined when any of the value is not set
+ */
+export function createKey(values: Raw[]): string | undefined {
+  return values.length > 0 && values.every((value) => value !== undefined)
+    ? JSON.stringify(values, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value,
+      )
+    : undefined
+}
+
+/** Conflict handling of an entry inserted by upsert */
+export interface EntryConflict {
+  /** Columns of unique constraint used to detect the conflict */
+  readonly columns: ColumnMetadata[]
+  /** Columns updated on conflict, all inserted columns when undefined */
+  readonly update?: ColumnMetadata[] | undefined
+}
 
 export class Entry {
   public readonly baseProperties: EntryPropertyValue[]
   public readonly relationProperties: EntryPropertyRelation[]
-  public readonly id: EntryPropertyValue
+  public readonly ids: EntryPropertyValue[]
 
   private _initialized: boolean = false
   private _remove: boolean = false
+  private _conflict: EntryConflict | undefined = undefined
 
   public constructor(
     registry: EntryRegistry,
@@ -110,11 +176,36 @@ export class Entry {
         ? new EntryPropertyMultiRelation(registry, this, column)
         : new EntryPropertySingleRelation(registry, this, column),
     )
-    const id = this.baseProperties.find((prop) => prop.column.id)
-    if (id === undefined) {
+    this.ids = this.baseProperties.filter((prop) => prop.column.id)
+    if (this.ids.length === 0) {
       throw new Error('Unexpected error, table do not have identifier column')
     }
-    this.id = id
+  }
+
+  /** The only id property, throw if table has composite id */
+  public get id(): EntryPropertyValue {
+    const [id, ...others] = this.ids
+    if (id !== undefined && others.length === 0) {
+      return id
+    }
+    throw new Error(
+      `Table "${this.table.name}" has composite id, use "ids" instead`,
+    )
+  }
+
+  /** Identity key of this entry, undefined when any id is not set */
+  public get key(): string | undefined {
+    return createKey(this.ids.map((prop) => prop.value))
+  }
+
+  /** Condition matching this entry row by its id columns */
+  public get condition(): Record<string, Knex.Value> {
+    return Object.fromEntries(
+      this.ids.map((prop) => [
+        prop.column.columnName,
+        getColumnValue(prop.column, prop.value),
+      ]),
+    )
   }
 
   public get properties(): EntryProperty[] {
@@ -142,6 +233,15 @@ export class Entry {
     this._remove = value
   }
 
+  /** Insert this entry as upsert when set */
+  public get conflict(): EntryConflict | undefined {
+    return this._conflict
+  }
+
+  public set conflict(value: EntryConflict | undefined) {
+    this._conflict = value
+  }
+
   public get dirty(): boolean {
     return this.properties.find((prop) => prop.dirty) !== undefined
   }
@@ -201,7 +301,8 @@ export abstract class EntryProperty {
 export abstract class EntryPropertyValue extends EntryProperty {
   public abstract override get value(): RawValue
   public abstract override set value(value: RawValue)
-  public abstract get changes(): NullOf<RawValue>
+  /** Value written into database column */
+  public abstract get changes(): Knex.Value | Knex.Value[]
 }
 
 export class EntryPropertySingleValue extends EntryPropertyValue {
@@ -212,7 +313,7 @@ export class EntryPropertySingleValue extends EntryPropertyValue {
   }
 
   public set value(value: RawSingleValue) {
-    this.dirty = this.dirty || this.data !== value
+    this.dirty = this.dirty || !isRawEqual(this.data, value)
     this.data = value
 
     if (this.column.id) {
@@ -220,8 +321,8 @@ export class EntryPropertySingleValue extends EntryPropertyValue {
     }
   }
 
-  public override get changes(): NullOf<RawSingleValue> {
-    return this.value ?? null
+  public override get changes(): Knex.Value {
+    return getColumnValue(this.column, this.value)
   }
 }
 
@@ -233,41 +334,15 @@ export class EntryPropertyMultiValue extends EntryPropertyValue {
   }
 
   public set value(value: RawMultiValue) {
-    this.dirty = this.dirty || isMultiValueDirty(this.data, value)
+    this.dirty = this.dirty || !isRawEqual(this.data, value)
     this.data = value
   }
 
-  public override get changes(): NullOf<RawMultiValue> {
-    return this.value?.map((item) => item ?? null) ?? null
+  public override get changes(): Knex.Value[] | null {
+    return this.value?.map((item) => getColumnValue(this.column, item)) ?? null
   }
 }
 
-function isMultiValueDirty(
-  value1: RawMultiValue,
-  value2: RawMultiValue,
-): boolean {
-  const isUndefined1 = value1 === undefined
-  const isUndefined2 = value2 === undefined
-  if (isUndefined1 !== isUndefined2) {
-    return true
-  }
-
-  const array1 = value1 ?? []
-  const array2 = value2 ?? []
-  if (array1.length !== array2.length) {
-    return true
-  }
-
-  const length = Math.max(array1.length, array2.length)
-  for (let i = 0; i < length; i++) {
-    if (array1[i] !== array2[i]) {
-      return true
-    }
-  }
-
-  return false
-}
-
 export abstract class EntryPropertyRelation extends EntryProperty {
   public constructor(
     registry: EntryRegistry,
@@ -278,8 +353,30 @@ export abstract class EntryPropertyRelation extends EntryProperty {
   }
   public abstract override get value(): RawRelation
   public abstract override set value(value: RawRelation)
+  /** Entries of this relation */
+  public abstract get entries(): Entry[]
   public abstract bind(): void
   public abstract unbind(): void
+
+  /**
+   * Pair join properties of this entry with join properties of given related
+   * entry, in order of join columns
+   */
+  protected joinProperties(
+    entry: Entry | undefined,
+  ): [EntryProperty | undefined, EntryProperty | undefined][] {
+    return this.column.sourceColumns.map((sourceColumn, index) => [
+      this.entry.property(sourceColumn),
+      entry?.property(this.column.foreignColumns[index]!),
+    ])
+  }
+
+  /** Get entry of related value, only strong relation assign its value */
+  protected relate(value: RawSingleObject): Entry | undefined {
+    return this.column.type === 'strong'
+      ? this.registry.instantiate(this.column.foreignTable, value)
+      : this.registry.reference(this.column.foreignTable, value)
+  }
 }
 
 export class EntryPropertySingleRelation extends EntryPropertyRelation {
@@ -290,7 +387,7 @@ export class EntryPropertySingleRelation extends EntryPropertyRelation {
   }
 
   public override set value(value: RawSingleObject) {
-    const newData = this.registry.instantiate(this.column.foreignTable, value)
+    const newData = this.relate(value)
 
     if (this.data !== newData) {
       this.dirty = true
@@ -298,30 +395,38 @@ export class EntryPropertySingleRelation extends EntryPropertyRelation {
     }
   }
 
+  public override get entries(): Entry[] {
+    return this.data !== undefined ? [this.data] : []
+  }
+
   public override bind(): void {
-    const sourceProperty = this.entry.property(this.column.sourceColumn)
-    const foreignProperty = this.data?.property(this.column.foreignColumn)
-    if (this.column.owner === 'source' && sourceProperty !== undefined) {
-      sourceProperty.value = foreignProperty?.value
-    } else if (
-      this.column.owner === 'foreign' &&
-      foreignProperty !== undefined
-    ) {
-      foreignProperty.value = sourceProperty?.value
-    }
+    this.joinProperties(this.data).forEach(
+      ([sourceProperty, foreignProperty]) => {
+        if (this.column.owner === 'source' && sourceProperty !== undefined) {
+          sourceProperty.value = foreignProperty?.value
+        } else if (
+          this.column.owner === 'foreign' &&
+          foreignProperty !== undefined
+        ) {
+          foreignProperty.value = sourceProperty?.value
+        }
+      },
+    )
   }
 
   public override unbind(): void {
-    const sourceProperty = this.entry.property(this.column.sourceColumn)
-    const foreignProperty = this.data?.property(this.column.foreignColumn)
-    if (this.column.owner === 'source' && sourceProperty !== undefined) {
-      sourceProperty.value = undefined
-    } else if (
-      this.column.owner === 'foreign' &&
-      foreignProperty !== undefined
-    ) {
-      foreignProperty.value = undefined
-    }
+    this.joinProperties(this.data).forEach(
+      ([sourceProperty, foreignProperty]) => {
+        if (this.column.owner === 'source' && sourceProperty !== undefined) {
+          sourceProperty.value = undefined
+        } else if (
+          this.column.owner === 'foreign' &&
+          foreignProperty !== undefined
+        ) {
+          foreignProperty.value = undefined
+        }
+      },
+    )
   }
 }
 
@@ -333,37 +438,56 @@ export class EntryPropertyMultiRelation extends EntryPropertyRelation {
   }
 
   public override set value(value: RawMultiObject) {
-    const entries = value?.map((item) =>
-      this.registry.instantiate(this.column.foreignTable, item),
-    )
+    const entries = value?.map((item) => this.relate(item))
     this.dirty = this.dirty || isEntriesDirty(this.data, entries)
     this.data = entries
   }
 
+  public override get entries(): Entry[] {
+    return this.data?.filter((entry) => entry !== undefined) ?? []
+  }
+
   public override bind(): void {
-    const sourceProperty = this.entry.property(this.column.sourceColumn)
-    if (this.column.owner === 'source' && sourceProperty !== undefined) {
-      this.data
-        ?.map((entry) => entry?.property(this.column.foreignColumn))
-        .forEach((prop) => (sourceProperty.value = prop?.value))
-    } else if (this.column.owner === 'foreign') {
-      this.data
-        ?.map((entry) => entry?.property(this.column.foreignColumn))
-        .filter((prop) => prop !== undefined)
-        .forEach((prop) => (prop.value = sourceProperty?.value))
+    // junction table is maintained separately when committing
+    if (this.column.through !== undefined) {
+      return
     }
+
+    this.data?.forEach((entry) =>
+      this.joinProperties(entry).forEach(
+        ([sourceProperty, foreignProperty]) => {
+          if (this.column.owner === 'source' && sourceProperty !== undefined) {
+            sourceProperty.value = foreignProperty?.value
+          } else if (
+            this.column.owner === 'foreign' &&
+            foreignProperty !== undefined
+          ) {
+            foreignProperty.value = sourceProperty?.value
+          }
+        },
+      ),
+    )
   }
 
   public override unbind(): void {
-    const sourceProperty = this.entry.property(this.column.sourceColumn)
-    if (this.column.owner === 'source' && sourceProperty !== undefined) {
-      sourceProperty.value = undefined
-    } else if (this.column.owner === 'foreign') {
-      this.data
-        ?.map((entry) => entry?.property(this.column.foreignColumn))
-        .filter((prop) => prop !== undefined)
-        .forEach((prop) => (prop.value = undefined))
+    if (this.column.through !== undefined) {
+      return
     }
+
+    this.data?.forEach((entry) =>
+      this.joinProperties(entry).forEach(
+        ([sourceProperty, foreignProperty]) => {
+          if (this.column.owner === 'source' && sourceProperty !== undefined) {
+            sourceProperty.value = undefined
+          } else if (
+            this.column.owner === 'foreign' &&
+            foreignProperty !== undefined
+          ) {
+            foreignProperty.value = undefined
+          }
+        },
+      ),
+    )
   }
 }
 
@@ -385,9 +509,9 @@ function isEntriesDirty(
 
   const length = Math.max(array1.length, array2.length)
   for (let index = 0; index < length; index++) {
-    const id1 = array1[index]?.id.value
-    const id2 = array2[index]?.id.value
-    if (id1 !== id2) {
+    const key1 = array1[index]?.key
+    const key2 = array2[index]?.key
+    if (key1 !== key2) {
       return true
     }
   }
@@ -0,0 +1,22 @@
+import { AnyRecord, Schema } from 'pertype'
+import { QueryFilterGroup } from './query'
+
+/** Error thrown when an entity expected by a query does not exist */
+export class EntityNotFoundError<
+  P extends AnyRecord<Schema> = AnyRecord<Schema>,
+> extends Error {
+  public constructor(
+    /** Name of the table queried */
+    public readonly table: string,
+    /** Condition that no entity matches */
+    public readonly condition: QueryFilterGroup<P>,
+  ) {
+    super(
+      `Entity of table "${table}" matching ${JSON.stringify(
+        condition,
+        (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+      )} is not found`,
+    )
+    this.name = 'EntityNotFoundError'
+  }
+}
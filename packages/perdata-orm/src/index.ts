@@ -1,4 +1,9 @@
+export * from './error'
+export * from './introspect'
 export * from './metadata'
+export * from './migration'
+export * from './migrator'
+export * from './naming'
 export * from './query'
 export * from './schema'
 export * from './source'
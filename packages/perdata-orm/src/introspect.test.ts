@@ -0,0 +1,246 @@
+import { AnyRecord, ObjectSchema, Schema, number, string } from 'pertype'
+import { ColumnDefinition, renderEntities } from './introspect'
+import { entity, generate, id, join } from './schema'
+import { DataSource } from './source'
+
+describe('Introspect', () => {
+  /** Evaluate rendered source, returning its declared entities */
+  const evaluate = (
+    code: string,
+  ): Record<string, ObjectSchema<AnyRecord<Schema>>> => {
+    const scope = { entity, generate, id, join, number, string }
+    const body = code
+      .replace(/^import .*$/gm, '')
+      .replace(/^export const (\w+) =/gm, 'const $1 = exports.$1 =')
+    const exports = {}
+    new Function(...Object.keys(scope), 'exports', body)(
+      ...Object.values(scope),
+      exports,
+    )
+    return exports
+  }
+
+  const column = (
+    name: string,
+    type: string,
+    options: Partial<ColumnDefinition> = {},
+  ): ColumnDefinition => ({
+    name,
+    type,
+    nullable: false,
+    primary: false,
+    generated: false,
+    ...options,
+  })
+
+  const post = {
+    name: 'post',
+    columns: [
+      column('id', 'integer', { primary: true, generated: true }),
+      column('title', 'text'),
+      column('tags', 'text[]', { nullable: true }),
+      column('author_id', 'integer'),
+      column('editor_id', 'integer', { nullable: true }),
+    ],
+    foreignKeys: [
+      {
+        columns: ['author_id'],
+        foreignTable: 'author',
+        foreignColumns: ['id'],
+      },
+      {
+        columns: ['editor_id'],
+        foreignTable: 'author',
+        foreignColumns: ['id'],
+      },
+    ],
+  }
+  const author = {
+    name: 'author',
+    columns: [
+      column('id', 'uuid', { primary: true }),
+      column('name', 'character varying'),
+      column('created_at', 'timestamp with time zone'),
+    ],
+    foreignKeys: [],
+  }
+
+  it('Should import only used functions', () => {
+    const code = renderEntities([post, author])
+    expect(code).toContain(
+      "import { entity, generate, id, join } from '@perdata/orm'",
+    )
+    expect(code).toContain("import { date, number, string } from 'pertype'")
+  })
+
+  it('Should declare referenced entity first', () => {
+    const code = renderEntities([post, author])
+    expect(code.indexOf('export const Author')).toBeLessThan(
+      code.indexOf('export const Post'),
+    )
+  })
+
+  it('Should render column type, nullability and id', () => {
+    const code = renderEntities([post, author])
+    expect(code).toContain('id: number().optional().decorate(id(), generate())')
+    expect(code).toContain('id: string().decorate(id())')
+    expect(code).toContain('tags: string().array().optional()')
+    expect(code).toContain('created_at: date()')
+  })
+
+  it('Should render foreign key as relation owning join column', () => {
+    const code = renderEntities([post, author])
+    expect(code).toContain(
+      "author: Author.decorate(join({ name: 'author_id' }))",
+    )
+    expect(code).toContain(
+      "editor: Author.optional().decorate(join({ name: 'editor_id' }))",
+    )
+    expect(code).not.toContain('author_id: ')
+  })
+
+  it('Should render inverse collection relation on circular reference', () => {
+    const code = renderEntities([
+      post,
+      {
+        ...author,
+        columns: [
+          ...author.columns,
+          column('best_post_id', 'integer', { nullable: true }),
+        ],
+        foreignKeys: [
+          {
+            columns: ['best_post_id'],
+            foreignTable: 'post',
+            foreignColumns: ['id'],
+          },
+        ],
+      },
+    ])
+    expect(code).toContain('best_post_id: number().optional()')
+    expect(code).toContain(
+      "authors: Author.array().decorate(join({ name: 'best_post_id', owner: 'foreign' }))",
+    )
+  })
+
+  it('Should render self reference as relation to nested entity', () => {
+    const code = renderEntities([
+      {
+        name: 'category',
+        columns: [
+          column('id', 'integer', { primary: true }),
+          column('name', 'text'),
+          column('parent_id', 'integer', { nullable: true }),
+        ],
+        foreignKeys: [
+          {
+            columns: ['parent_id'],
+            foreignTable: 'category',
+            foreignColumns: ['id'],
+          },
+        ],
+      },
+    ])
+    expect(code).toContain(
+      "parent: entity('category', { id: number().decorate(id()), name: string() })" +
+        ".optional().decorate(join({ name: 'parent_id' }))",
+    )
+    expect(code).not.toContain('parent_id: ')
+  })
+
+  it('Should render foreign key to composite id in order of id columns', () => {
+    const code = renderEntities([
+      {
+        name: 'member',
+        columns: [
+          column('tenant', 'text', { primary: true }),
+          column('code', 'integer', { primary: true }),
+        ],
+        foreignKeys: [],
+      },
+      {
+        name: 'badge',
+        columns: [
+          column('id', 'integer', { primary: true }),
+          column('member_code', 'integer'),
+          column('member_tenant', 'text'),
+        ],
+        foreignKeys: [
+          {
+            columns: ['member_code', 'member_tenant'],
+            foreignTable: 'member',
+            foreignColumns: ['code', 'tenant'],
+          },
+        ],
+      },
+    ])
+    expect(code).toContain(
+      "member: Member.decorate(join({ name: ['member_tenant', 'member_code'] }))",
+    )
+  })
+
+  it('Should keep id of junction table and load it', async () => {
+    const code = renderEntities([
+      {
+        name: 'article',
+        columns: [
+          column('id', 'integer', { primary: true }),
+          column('title', 'text'),
+        ],
+        foreignKeys: [],
+      },
+      {
+        name: 'label',
+        columns: [
+          column('id', 'integer', { primary: true }),
+          column('name', 'text'),
+        ],
+        foreignKeys: [],
+      },
+      {
+        name: 'article_label',
+        columns: [
+          column('article_id', 'integer', { primary: true }),
+          column('label_id', 'integer', { primary: true }),
+        ],
+        foreignKeys: [
+          {
+            columns: ['article_id'],
+            foreignTable: 'article',
+            foreignColumns: ['id'],
+          },
+          {
+            columns: ['label_id'],
+            foreignTable: 'label',
+            foreignColumns: ['id'],
+          },
+        ],
+      },
+    ])
+    expect(code).toContain('article_id: number().decorate(id())')
+    expect(code).toContain(
+      "article: Article.decorate(join({ name: 'article_id' }))",
+    )
+
+    const { Article, Label, ArticleLabel } = evaluate(code)
+    const db = new DataSource({ client: 'memory' })
+    await db.synchronize(ArticleLabel!)
+    const [article] = await db.from(Article!).insert({ id: 1, title: 'a' })
+    const [label] = await db.from(Label!).insert({ id: 2, name: 'b' })
+    await db.from(ArticleLabel!).insert({
+      article_id: 1,
+      label_id: 2,
+      article: article!,
+      label: label!,
+    })
+    await expect(db.from(ArticleLabel!).find()).resolves.toStrictEqual([
+      {
+        article_id: 1,
+        label_id: 2,
+        article: { id: 1, title: 'a' },
+        label: { id: 2, name: 'b' },
+      },
+    ])
+    await db.close()
+  })
+})
@@ -0,0 +1,457 @@
+import { Knex } from 'knex'
+import {
+  pascalCase,
+  pluralize,
+  propertyKey,
+  quote,
+  quoteNames,
+} from './util/code'
+
+export interface TableDefinition {
+  /** Table name */
+  readonly name: string
+  /** Columns in declaration order */
+  readonly columns: ColumnDefinition[]
+  /** Foreign keys declared by this table */
+  readonly foreignKeys: ForeignKeyDefinition[]
+}
+
+export interface ColumnDefinition {
+  /** Column name */
+  readonly name: string
+  /** Database column type, e.g. `integer` or `text[]` */
+  readonly type: string
+  /** Mark if column accept null value */
+  readonly nullable: boolean
+  /** Mark if column is part of primary key */
+  readonly primary: boolean
+  /** Mark if column value is generated by database (identity or serial) */
+  readonly generated: boolean
+}
+
+export interface ForeignKeyDefinition {
+  /** Columns holding the reference */
+  readonly columns: string[]
+  /** Referenced table name */
+  readonly foreignTable: string
+  /** Referenced column names, in the same order */
+  readonly foreignColumns: string[]
+}
+
+interface ColumnRow {
+  readonly table_name: string
+  readonly column_name: string
+  readonly data_type: string
+  readonly udt_name: string
+  readonly is_nullable: string
+  readonly is_identity: string
+  readonly column_default: string | null
+}
+
+interface PrimaryKeyRow {
+  readonly table_name: string
+  readonly column_name: string
+}
+
+interface ForeignKeyRow {
+  readonly constraint_name: string
+  readonly table_name: string
+  readonly column_name: string
+  readonly foreign_table_name: string
+  readonly foreign_column_name: string
+}
+
+/**
+ * Read tables of current schema from `information_schema`, only PostgreSQL is
+ * supported
+ *
+ * @param connection Connection to be introspected
+ * @returns {@link TableDefinition} of every table in current schema
+ */
+export async function introspect(connection: Knex): Promise<TableDefinition[]> {
+  if (connection.client.driverName !== 'pg') {
+    throw new Error('Introspection is only supported on PostgreSQL database')
+  }
+
+  const columnRows: ColumnRow[] = await connection
+    .select(
+      'c.table_name',
+      'c.column_name',
+      'c.data_type',
+      'c.udt_name',
+      'c.is_nullable',
+      'c.is_identity',
+      'c.column_default',
+    )
+    .from('information_schema.columns as c')
+    .join('information_schema.tables as t', (join) =>
+      join
+        .on('t.table_schema', 'c.table_schema')
+        .andOn('t.table_name', 'c.table_name'),
+    )
+    .where('t.table_type', 'BASE TABLE')
+    .andWhereRaw('c.table_schema = current_schema()')
+    .orderBy(['c.table_name', 'c.ordinal_position'])
+
+  const primaryKeyRows: PrimaryKeyRow[] = await connection
+    .select('kcu.table_name', 'kcu.column_name')
+    .from('information_schema.table_constraints as tc')
+    .join('information_schema.key_column_usage as kcu', (join) =>
+      join
+        .on('kcu.constraint_schema', 'tc.constraint_schema')
+        .andOn('kcu.constraint_name', 'tc.constraint_name'),
+    )
+    .where('tc.constraint_type', 'PRIMARY KEY')
+    .andWhereRaw('tc.table_schema = current_schema()')
+
+  // referenced column is paired by its position in referenced unique key
+  const foreignKeyRows: ForeignKeyRow[] = await connection
+    .select(
+      'kcu.constraint_name',
+      'kcu.table_name',
+      'kcu.column_name',
+      'rkcu.table_name as foreign_table_name',
+      'rkcu.column_name as foreign_column_name',
+    )
+    .from('information_schema.referential_constraints as rc')
+    .join('information_schema.key_column_usage as kcu', (join) =>
+      join
+        .on('kcu.constraint_schema', 'rc.constraint_schema')
+        .andOn('kcu.constraint_name', 'rc.constraint_name'),
+    )
+    .join('information_schema.key_column_usage as rkcu', (join) =>
+      join
+        .on('rkcu.constraint_schema', 'rc.unique_constraint_schema')
+        .andOn('rkcu.constraint_name', 'rc.unique_constraint_name')
+        .andOn('rkcu.ordinal_position', 'kcu.position_in_unique_constraint'),
+    )
+    .whereRaw('rc.constraint_schema = current_schema()')
+    .orderBy(['kcu.table_name', 'kcu.constraint_name', 'kcu.ordinal_position'])
+
+  const tableNames = [...new Set(columnRows.map((row) => row.table_name))]
+  return tableNames.map((tableName) => ({
+    name: tableName,
+    columns: columnRows
+      .filter((row) => row.table_name === tableName)
+      .map((row) => ({
+        name: row.column_name,
+        type: readType(row),
+        nullable: row.is_nullable === 'YES',
+        primary: primaryKeyRows.some(
+          (key) =>
+            key.table_name === tableName && key.column_name === row.column_name,
+        ),
+        generated:
+          row.is_identity === 'YES' ||
+          (row.column_default?.startsWith('nextval(') ?? false),
+      })),
+    foreignKeys: readForeignKeys(
+      foreignKeyRows.filter((row) => row.table_name === tableName),
+    ),
+  }))
+}
+
+function readForeignKeys(rows: ForeignKeyRow[]): ForeignKeyDefinition[] {
+  const constraints = [...new Set(rows.map((row) => row.constraint_name))]
+  return constraints.map((constraint) => {
+    const constraintRows = rows.filter(
+      (row) => row.constraint_name === constraint,
+    )
+    return {
+      columns: constraintRows.map((row) => row.column_name),
+      foreignTable: constraintRows[0]!.foreign_table_name,
+      foreignColumns: constraintRows.map((row) => row.foreign_column_name),
+    }
+  })
+}
+
+function readType(row: ColumnRow): string {
+  switch (row.data_type) {
+    case 'ARRAY':
+      // array type name is prefixed with underscore, e.g. "_int4"
+      return `${row.udt_name.slice(1)}[]`
+    case 'USER-DEFINED':
+      return row.udt_name
+    default:
+      return row.data_type
+  }
+}
+
+const schemaBuilders: Record<string, string> = {
+  smallint: 'number',
+  integer: 'number',
+  real: 'number',
+  'double precision': 'number',
+  int2: 'number',
+  int4: 'number',
+  float4: 'number',
+  float8: 'number',
+  bigint: 'bigint',
+  int8: 'bigint',
+  // numeric is read as string to keep its precision
+  numeric: 'string',
+  text: 'string',
+  'character varying': 'string',
+  character: 'string',
+  varchar: 'string',
+  bpchar: 'string',
+  uuid: 'string',
+  citext: 'string',
+  boolean: 'bool',
+  bool: 'bool',
+  date: 'date',
+  'timestamp without time zone': 'date',
+  'timestamp with time zone': 'date',
+  timestamp: 'date',
+  timestamptz: 'date',
+}
+
+/**
+ * Render TypeScript source declaring entity schema of given tables. An entity
+ * can only refer to entities declared before it, so every foreign key becomes
+ * relation property on the entity that is declared later. Self reference is
+ * declared using nested entity of the same table, so only a single level of it
+ * is loaded
+ *
+ * @param tables {@link TableDefinition} to be rendered
+ * @returns Source code declaring entity of every table
+ */
+export function renderEntities(tables: TableDefinition[]): string {
+  const ordered = orderTables(tables)
+  const position = (name: string): number =>
+    ordered.findIndex((table) => table.name === name)
+
+  const ormImports: Set<string> = new Set(['entity'])
+  const schemaImports: Set<string> = new Set()
+
+  const joinColumns: Map<string, Set<string>> = new Map()
+  const relations: Map<string, RelationDeclaration[]> = new Map()
+  const inverseRelations: Map<string, RelationDeclaration[]> = new Map()
+  const addRelation = (
+    storage: Map<string, RelationDeclaration[]>,
+    table: string,
+    relation: RelationDeclaration,
+  ) => storage.set(table, [...(storage.get(table) ?? []), relation])
+
+  const identifiers: Map<string, string> = new Map()
+  const usedIdentifiers: Set<string> = new Set()
+  for (const table of ordered) {
+    const identifier = uniqueName(pascalCase(table.name), usedIdentifiers)
+    identifiers.set(table.name, identifier)
+  }
+
+  for (const table of ordered) {
+    for (const foreignKey of table.foreignKeys) {
+      const foreignTable = ordered.find(
+        (item) => item.name === foreignKey.foreignTable,
+      )
+      const names =
+        foreignTable !== undefined
+          ? readJoinNames(foreignTable, foreignKey)
+          : undefined
+      // foreign key to other than id columns is kept as plain columns
+      if (foreignTable === undefined || names === undefined) {
+        continue
+      }
+
+      ormImports.add('join')
+      if (
+        foreignTable === table ||
+        position(foreignTable.name) < position(table.name)
+      ) {
+        names.forEach((name) =>
+          joinColumns.set(
+            table.name,
+            (joinColumns.get(table.name) ?? new Set()).add(name),
+          ),
+        )
+        const nullable = table.columns.some(
+          (column) => names.includes(column.name) && column.nullable,
+        )
+        addRelation(relations, table.name, {
+          name: readRelationName(foreignTable, names),
+          target:
+            foreignTable !== table
+              ? identifiers.get(foreignTable.name)
+              : undefined,
+          statement:
+            (nullable ? '.optional()' : '') +
+            `.decorate(join({ name: ${quoteNames(names)} }))`,
+        })
+      } else {
+        // several foreign keys to the same table are told apart by its name
+        const ambiguous =
+          table.foreignKeys.filter(
+            (key) => key.foreignTable === foreignTable.name,
+          ).length > 1
+        addRelation(inverseRelations, foreignTable.name, {
+          name: ambiguous
+            ? `${pluralize(table.name)}_by_${readRelationName(foreignTable, names)}`
+            : pluralize(table.name),
+          target: identifiers.get(table.name),
+          statement:
+            '.array()' +
+            `.decorate(join({ name: ${quoteNames(names)}, owner: 'foreign' }))`,
+        })
+      }
+    }
+  }
+
+  const declarations = ordered.map((table) => {
+    const names: Set<string> = new Set()
+    const properties: string[] = []
+    for (const column of table.columns) {
+      // id column is kept as base column, relation shares it as join column
+      if (joinColumns.get(table.name)?.has(column.name) && !column.primary) {
+        continue
+      }
+      names.add(column.name)
+      properties.push(
+        `${propertyKey(column.name)}: ${renderColumn(column, ormImports, schemaImports)}`,
+      )
+    }
+    // relation owning join column takes the name before inverse relation
+    const tableRelations = [
+      ...(relations.get(table.name) ?? []),
+      ...(inverseRelations.get(table.name) ?? []),
+    ]
+    const relationProperties = tableRelations.map((relation) => {
+      const target =
+        relation.target ??
+        `entity(${quote(table.name)}, { ${properties.join(', ')} })`
+      return `${propertyKey(uniqueName(relation.name, names))}: ${target}${relation.statement}`
+    })
+    return [
+      `export const ${identifiers.get(table.name)} = entity(${quote(table.name)}, {`,
+      ...[...properties, ...relationProperties].map(
+        (property) => `  ${property},`,
+      ),
+      '})',
+    ].join('\n')
+  })
+
+  const imports = [
+    [ormImports, '@perdata/orm'] as const,
+    [schemaImports, 'pertype'] as const,
+  ]
+    .filter(([names]) => names.size > 0)
+    .map(
+      ([names, module]) =>
+        `import { ${[...names].sort().join(', ')} } from ${quote(module)}`,
+    )
+  return [
+    ...imports,
+    ...declarations.map((declaration) => `\n${declaration}`),
+    '',
+  ].join('\n')
+}
+
+function renderColumn(
+  column: ColumnDefinition,
+  ormImports: Set<string>,
+  schemaImports: Set<string>,
+): string {
+  const collection = column.type.endsWith('[]')
+  const type = collection ? column.type.slice(0, -2) : column.type
+  const builder = schemaBuilders[type] ?? 'unknown'
+  schemaImports.add(builder)
+
+  let statement = `${builder}()`
+  if (collection) {
+    statement += '.array()'
+  }
+  // generated value is not required when inserting
+  if (column.nullable || column.generated) {
+    statement += '.optional()'
+  }
+
+  const decorators: string[] = []
+  if (column.primary) {
+    decorators.push('id()')
+  }
+  if (column.generated) {
+    decorators.push('generate()')
+  }
+  decorators.forEach((decorator) => ormImports.add(decorator.slice(0, -2)))
+  if (decorators.length > 0) {
+    statement += `.decorate(${decorators.join(', ')})`
+  }
+  return statement
+}
+
+interface RelationDeclaration {
+  /** Property name of the relation */
+  readonly name: string
+  /** Identifier of related entity, undefined for self reference */
+  readonly target: string | undefined
+  /** Statement following the related entity */
+  readonly statement: string
+}
+
+/**
+ * Read join column names of foreign key in order of id columns of referenced
+ * table
+ *
+ * @returns Join column names, or undefined when foreign key does not refer to
+ *   every id column of referenced table
+ */
+function readJoinNames(
+  foreignTable: TableDefinition,
+  foreignKey: ForeignKeyDefinition,
+): string[] | undefined {
+  const ids = foreignTable.columns.filter((column) => column.primary)
+  if (ids.length === 0 || ids.length !== foreignKey.foreignColumns.length) {
+    return undefined
+  }
+  const names = ids.map(
+    (id) => foreignKey.columns[foreignKey.foreignColumns.indexOf(id.name)],
+  )
+  return names.every((name) => name !== undefined) ? names : undefined
+}
+
+/**
+ * Read relation name from join column names, e.g. `author` from `author_id`,
+ * otherwise use referenced table name
+ */
+function readRelationName(
+  foreignTable: TableDefinition,
+  names: string[],
+): string {
+  const ids = foreignTable.columns.filter((column) => column.primary)
+  const [first] = names
+  const prefix =
+    first !== undefined && first.endsWith(`_${ids[0]!.name}`)
+      ? first.slice(0, -ids[0]!.name.length - 1)
+      : undefined
+  return prefix !== undefined &&
+    names.every((name, index) => name === `${prefix}_${ids[index]!.name}`)
+    ? prefix
+    : foreignTable.name
+}
+
+/** Order tables so that referenced tables come before the referencing one */
+function orderTables(tables: TableDefinition[]): TableDefinition[] {
+  const ordered: TableDefinition[] = []
+  const visiting: Set<TableDefinition> = new Set()
+  const visit = (table: TableDefinition): void => {
+    if (visiting.has(table)) {
+      return
+    }
+    visiting.add(table)
+    table.foreignKeys
+      .map((key) => tables.find((item) => item.name === key.foreignTable))
+      .forEach((foreignTable) => foreignTable && visit(foreignTable))
+    ordered.push(table)
+  }
+  tables.forEach(visit)
+  return ordered
+}
+
+function uniqueName(name: string, names: Set<string>): string {
+  let unique = name
+  for (let index = 2; names.has(unique); index++) {
+    unique = `${name}${index}`
+  }
+  names.add(unique)
+  return unique
+}
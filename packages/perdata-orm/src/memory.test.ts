@@ -0,0 +1,782 @@
+import { number, object, string } from 'pertype'
+import { EntityNotFoundError } from './error'
+import {
+  QueryCondition,
+  between,
+  contains,
+  count,
+  endsWith,
+  eq,
+  every,
+  gt,
+  ilike,
+  isNotNull,
+  isNull,
+  like,
+  max,
+  none,
+  not,
+  notIn,
+  or,
+  some,
+  startsWith,
+  sum,
+} from './query'
+import { column, join } from './schema'
+import { DataSource } from './source'
+
+describe('Memory', () => {
+  const db = new DataSource({ client: 'memory' })
+
+  const base = object({
+    id: number().optional().set('id', true).set('generated', true),
+    key: string(),
+    value: string().optional(),
+  })
+
+  const foreignSchema = base.set('table', 'memory_foreign')
+  const schema = object({
+    ...base.props,
+    relation: foreignSchema.array().set('reference', 'strong'),
+  }).set('table', 'memory_source')
+
+  beforeAll(async () => {
+    await db.synchronize(schema)
+    await Promise.all(
+      [...Array(10).keys()].map((index) =>
+        db.from(schema).insert({
+          key: `key-${index}`,
+          value: `value-${index}`,
+          relation: [{ key: `key-${index}`, value: `value-${index}` }],
+        }),
+      ),
+    )
+  })
+
+  it('Should create tables of schema and its relations', async () => {
+    await expect(
+      db.connection().schema.hasTable('memory_source'),
+    ).resolves.toBe(true)
+    await expect(
+      db.connection().schema.hasTable('memory_foreign'),
+    ).resolves.toBe(true)
+  })
+
+  it('Should be able to select with filter, order, limit and offset', async () => {
+    const result = await db
+      .from(schema)
+      .find(or(eq('id', 1), gt('id', 5)))
+      .orderBy('id', 'desc')
+      .limit(2)
+      .offset(1)
+    expect(result).toHaveLength(2)
+    expect(result[0]).toHaveProperty('id', 9)
+    expect(result[1]).toHaveProperty('id', 8)
+    expect(result[0]!.relation).toHaveLength(1)
+  })
+
+  it('Should be able to update elements', async () => {
+    await db.from(foreignSchema).save({
+      id: 1,
+      key: 'key-u',
+      value: 'value-u',
+    })
+    const result = await db.from(foreignSchema).find(eq('id', 1))
+    expect(result).toHaveLength(1)
+    expect(result[0]).toHaveProperty('key', 'key-u')
+    expect(result[0]).toHaveProperty('value', 'value-u')
+  })
+
+  it('Should rollback transaction', async () => {
+    await db.transaction(async (trx) => {
+      await trx.from(foreignSchema).insert({ key: 'key', value: 'value' })
+      await trx.rollback()
+    })
+    const result = await db.from(foreignSchema).find()
+    expect(result).toHaveLength(10)
+  })
+
+  it('Should link and unlink many-to-many relation', async () => {
+    const tagSchema = base.set('table', 'memory_tag')
+    const postSchema = object({
+      ...base.props,
+      tags: tagSchema.array().decorate(join({ through: 'memory_post_tag' })),
+    }).set('table', 'memory_post')
+    await db.synchronize(postSchema)
+
+    await db.from(tagSchema).insert({ key: 'tag-1' })
+    await db.from(tagSchema).insert({ key: 'tag-2' })
+    const tags = await db.from(tagSchema).find().orderBy('id')
+    await db.from(postSchema).save({ key: 'post', tags })
+
+    const [post] = await db.from(postSchema).find(eq('key', 'post'))
+    expect(post!.tags).toHaveLength(2)
+
+    await db.from(postSchema).save({ ...post!, tags: tags.slice(1) })
+    const [updated] = await db.from(postSchema).find(eq('key', 'post'))
+    expect(updated!.tags).toHaveLength(1)
+    expect(updated!.tags[0]).toHaveProperty('key', 'tag-2')
+    await expect(
+      db.connection().from('memory_post_tag').select(),
+    ).resolves.toHaveLength(1)
+
+    // removing the inverse side also removes its links
+    await db.from(tagSchema).remove(tags[1]!)
+    await expect(
+      db.connection().from('memory_post_tag').select(),
+    ).resolves.toHaveLength(0)
+    const [unlinked] = await db.from(postSchema).find(eq('key', 'post'))
+    expect(unlinked!.tags).toHaveLength(0)
+  })
+
+  it('Should save and load entity with composite id', async () => {
+    const memberSchema = object({
+      tenant: string().set('id', true),
+      code: string().set('id', true),
+      name: string(),
+    }).set('table', 'memory_member')
+    const badgeSchema = object({
+      ...base.props,
+      member: memberSchema,
+    }).set('table', 'memory_badge')
+    await db.synchronize(badgeSchema)
+
+    await db.from(memberSchema).insert({ tenant: 'a', code: '1', name: 'a1' })
+    await db.from(memberSchema).insert({ tenant: 'b', code: '1', name: 'b1' })
+    await db.from(memberSchema).save({ tenant: 'b', code: '1', name: 'b2' })
+    const members = await db.from(memberSchema).find().orderBy('tenant')
+    expect(members.map((member) => member.name)).toEqual(['a1', 'b2'])
+
+    await db.from(badgeSchema).save({ key: 'badge', member: members[1]! })
+    const [badge] = await db.from(badgeSchema).find(eq('key', 'badge'))
+    expect(badge!.member).toStrictEqual({ tenant: 'b', code: '1', name: 'b2' })
+  })
+
+  it('Should save and load collection column as JSON', async () => {
+    const listSchema = object({
+      ...base.props,
+      tags: string().array(),
+    }).set('table', 'memory_collection')
+    await db.synchronize(listSchema)
+
+    await db.from(listSchema).insert({ key: 'list', tags: ['a', 'b,c'] })
+    const [found] = await db.from(listSchema).find(eq('key', 'list'))
+    expect(found!.tags).toEqual(['a', 'b,c'])
+    await db
+      .from(listSchema)
+      .find(eq('key', 'list'))
+      .update({ tags: ['d'] })
+    const [updated] = await db.from(listSchema).find(eq('key', 'list'))
+    expect(updated!.tags).toEqual(['d'])
+  })
+
+  it('Should map property name into column name', async () => {
+    const snake = new DataSource({ client: 'memory', naming: 'snake_case' })
+    const authorSchema = object({
+      authorId: number().optional().set('id', true).set('generated', true),
+      fullName: string(),
+      nickName: string().optional().decorate(column('alias')),
+    }).set('table', 'memory_author')
+    await snake.synchronize(authorSchema)
+
+    await snake.from(authorSchema).insert({ fullName: 'a', nickName: 'x' })
+    await snake.from(authorSchema).insert({ fullName: 'b' })
+    const result = await snake
+      .from(authorSchema)
+      .find(eq('fullName', 'b'))
+      .orderBy('authorId')
+    expect(result).toStrictEqual([{ authorId: 2, fullName: 'b' }])
+    await expect(
+      snake.connection().from('memory_author').select(),
+    ).resolves.toContainEqual({ author_id: 1, full_name: 'a', alias: 'x' })
+    await snake.close()
+  })
+
+  it('Should remove entity and release its relations', async () => {
+    const childSchema = base.set('table', 'memory_remove_child')
+    const parentSchema = object({
+      ...base.props,
+      children: childSchema.array(),
+    }).set('table', 'memory_remove_parent')
+    await db.synchronize(parentSchema)
+
+    const children = await db
+      .from(childSchema)
+      .insertMany([{ key: 'child-1' }, { key: 'child-2' }])
+    const [parent] = await db.from(parentSchema).insert({
+      key: 'parent',
+      children,
+    })
+    const removed = await db.from(parentSchema).remove(parent!)
+    expect(removed).toHaveLength(1)
+    expect(removed[0]).toHaveProperty('key', 'parent')
+    await expect(db.from(parentSchema).find()).resolves.toHaveLength(0)
+    await expect(db.from(childSchema).find()).resolves.toHaveLength(2)
+    await expect(
+      db
+        .connection()
+        .from('memory_remove_child')
+        .whereNotNull('memory_remove_parent_id'),
+    ).resolves.toHaveLength(0)
+    await expect(db.from(parentSchema).remove(parent!)).resolves.toHaveLength(0)
+  })
+
+  it('Should delete every entity matching condition', async () => {
+    const deleteSchema = base.set('table', 'memory_delete')
+    await db.synchronize(deleteSchema)
+    for (const key of ['a', 'b', 'c']) {
+      await db.from(deleteSchema).insert({ key })
+    }
+
+    const deleted = await db
+      .from(deleteSchema)
+      .delete(or(eq('key', 'a'), eq('key', 'b')))
+    expect(deleted.map((item) => item.key).sort()).toEqual(['a', 'b'])
+    const result = await db.from(deleteSchema).find()
+    expect(result.map((item) => item.key)).toEqual(['c'])
+  })
+
+  it('Should only reference existing entity by weak relation', async () => {
+    const authorSchema = base.set('table', 'memory_weak_author')
+    const bookSchema = object({
+      ...base.props,
+      author: authorSchema,
+    }).set('table', 'memory_weak_book')
+    await db.synchronize(bookSchema)
+
+    const [author] = await db.from(authorSchema).insert({ key: 'author' })
+    await db.from(bookSchema).save({
+      key: 'book',
+      author: { ...author!, key: 'changed' },
+    })
+    const [book] = await db.from(bookSchema).find(eq('key', 'book'))
+    expect(book!.author).toHaveProperty('id', author!.id)
+    expect(book!.author).toHaveProperty('key', 'author')
+  })
+
+  it('Should not insert new entity by weak relation', async () => {
+    const authorSchema = base.set('table', 'memory_weak_new_author')
+    const bookSchema = object({
+      ...base.props,
+      author: authorSchema,
+    }).set('table', 'memory_weak_new_book')
+    await db.synchronize(bookSchema)
+
+    await expect(
+      db.from(bookSchema).save({ key: 'book', author: { key: 'author' } }),
+    ).rejects.toThrow('Relation "author" of "memory_weak_new_book" is weak')
+    await expect(
+      db.from(bookSchema).save({ key: 'book', author: { id: 1, key: 'a' } }),
+    ).rejects.toThrow('Relation "author" of "memory_weak_new_book" is weak')
+    await expect(db.from(authorSchema).find()).resolves.toHaveLength(0)
+    await expect(db.from(bookSchema).find()).resolves.toHaveLength(0)
+  })
+
+  it('Should cascade remove to strong relation', async () => {
+    const childSchema = base.set('table', 'memory_strong_child')
+    const parentSchema = object({
+      ...base.props,
+      children: childSchema.array().set('reference', 'strong'),
+    }).set('table', 'memory_strong_parent')
+    await db.synchronize(parentSchema)
+
+    const [parent] = await db.from(parentSchema).insert({
+      key: 'parent',
+      children: [{ key: 'child-1' }, { key: 'child-2' }],
+    })
+    await db.from(parentSchema).remove(parent!)
+    await expect(db.from(childSchema).find()).resolves.toHaveLength(0)
+  })
+
+  it('Should unlink or remove entity dropped from collection', async () => {
+    const childSchema = base.set('table', 'memory_orphan_child')
+    const parentSchema = object({
+      ...base.props,
+      unlinked: childSchema
+        .array()
+        .set('reference', 'strong')
+        .decorate(join({ name: 'unlinked_id' })),
+      removed: childSchema
+        .array()
+        .set('reference', 'strong')
+        .decorate(join({ name: 'removed_id', orphanRemoval: true })),
+    }).set('table', 'memory_orphan_parent')
+    await db.synchronize(parentSchema)
+
+    const [parent] = await db.from(parentSchema).insert({
+      key: 'parent',
+      unlinked: [{ key: 'unlinked-1' }, { key: 'unlinked-2' }],
+      removed: [{ key: 'removed-1' }, { key: 'removed-2' }],
+    })
+    await db.from(parentSchema).save({
+      ...parent!,
+      unlinked: parent!.unlinked.slice(1),
+      removed: parent!.removed.slice(1),
+    })
+
+    const [saved] = await db.from(parentSchema).find(eq('key', 'parent'))
+    expect(saved!.unlinked.map((child) => child.key)).toEqual(['unlinked-2'])
+    expect(saved!.removed.map((child) => child.key)).toEqual(['removed-2'])
+    const children = await db.from(childSchema).find().orderBy('key')
+    expect(children.map((child) => child.key)).toEqual([
+      'removed-2',
+      'unlinked-1',
+      'unlinked-2',
+    ])
+  })
+
+  it('Should insert many entities with its relations', async () => {
+    const childSchema = base.set('table', 'memory_many_child')
+    const parentSchema = object({
+      ...base.props,
+      children: childSchema.array().set('reference', 'strong'),
+    }).set('table', 'memory_many_parent')
+    await db.synchronize(parentSchema)
+
+    const inserted = await db.from(parentSchema).insertMany(
+      [...Array(1200).keys()].map((index) => ({
+        key: `parent-${index}`,
+        value: index % 2 === 0 ? `value-${index}` : undefined,
+        children: [{ key: `child-${index}` }],
+      })),
+    )
+    expect(inserted).toHaveLength(1200)
+    expect(new Set(inserted.map((item) => item.id)).size).toBe(1200)
+    expect(inserted[1]).toHaveProperty('key', 'parent-1')
+    expect(inserted[1]!.children[0]).toHaveProperty('key', 'child-1')
+
+    const [parent] = await db
+      .from(parentSchema)
+      .find(eq('id', inserted[999]!.id!))
+    expect(parent).toHaveProperty('key', 'parent-999')
+    expect(parent!.children.map((child) => child.key)).toEqual(['child-999'])
+  })
+
+  it('Should upsert entity and its relations', async () => {
+    const childSchema = base.set('table', 'memory_upsert_child')
+    const parentSchema = object({
+      ...base.props,
+      children: childSchema.array().set('reference', 'strong'),
+    }).set('table', 'memory_upsert_parent')
+    await db.synchronize(parentSchema)
+    await db
+      .connection()
+      .schema.alterTable('memory_upsert_parent', (table) =>
+        table.unique(['key']),
+      )
+
+    const [inserted] = await db
+      .from(parentSchema)
+      .upsert(
+        { key: 'parent', value: 'a', children: [{ key: 'child-1' }] },
+        { conflict: ['key'] },
+      )
+    const [updated] = await db.from(parentSchema).upsert(
+      {
+        key: 'parent',
+        value: 'b',
+        children: [{ ...inserted!.children[0]!, value: 'changed' }],
+      },
+      { conflict: ['key'] },
+    )
+    expect(updated).toHaveProperty('id', inserted!.id)
+    expect(updated).toHaveProperty('value', 'b')
+
+    const [ignored] = await db
+      .from(parentSchema)
+      .upsert(
+        { key: 'parent', value: 'c', children: [] },
+        { conflict: ['key'], update: [] },
+      )
+    expect(ignored).toHaveProperty('id', inserted!.id)
+    expect(ignored).toHaveProperty('value', 'b')
+
+    const result = await db.from(parentSchema).find()
+    expect(result).toHaveLength(1)
+    expect(result[0]!.children).toStrictEqual([
+      { id: inserted!.children[0]!.id, key: 'child-1', value: 'changed' },
+    ])
+  })
+
+  it('Should update every entity matching condition', async () => {
+    const updateSchema = base.set('table', 'memory_update')
+    await db.synchronize(updateSchema)
+    for (const key of ['a', 'b', 'c']) {
+      await db.from(updateSchema).insert({ key, value: 'pending' })
+    }
+
+    const count = await db
+      .from(updateSchema)
+      .find(or(eq('key', 'a'), eq('key', 'b')))
+      .update({ value: 'active' })
+    expect(count).toBe(2)
+    const result = await db.from(updateSchema).find().orderBy('key')
+    expect(result.map((item) => item.value)).toEqual([
+      'active',
+      'active',
+      'pending',
+    ])
+  })
+
+  it('Should release loaded entities updated by condition', async () => {
+    const updateSchema = base.set('table', 'memory_update_release')
+    await db.synchronize(updateSchema)
+    const [inserted] = await db
+      .from(updateSchema)
+      .insert({ key: 'a', value: 'pending' })
+
+    // transaction keeps loaded entries across queries
+    await db.transaction(async (trx) => {
+      const loaded = await trx.from(updateSchema).findById(inserted!.id!)
+      expect(loaded).toHaveProperty('value', 'pending')
+
+      await trx
+        .from(updateSchema)
+        .find(eq('key', 'a'))
+        .update({ value: 'active' })
+      const reloaded = await trx.from(updateSchema).findById(inserted!.id!)
+      expect(reloaded).toHaveProperty('value', 'active')
+
+      await trx
+        .from(updateSchema)
+        .find(eq('key', 'a'))
+        .update({ value: 'done' })
+      await trx.from(updateSchema).save({ ...reloaded!, value: 'active' })
+    })
+    await expect(
+      db.from(updateSchema).findById(inserted!.id!),
+    ).resolves.toHaveProperty('value', 'active')
+  })
+
+  it('Should filter using pattern, null, range and negation', async () => {
+    const filterSchema = base.set('table', 'memory_filter')
+    await db.synchronize(filterSchema)
+    for (const key of ['apple', 'Apricot', 'banana', '50%_off']) {
+      await db
+        .from(filterSchema)
+        .insert({ key, value: key === 'banana' ? undefined : key })
+    }
+    const keys = async (
+      condition: QueryCondition<typeof filterSchema.props>,
+    ): Promise<string[]> =>
+      (await db.from(filterSchema).find(condition).orderBy('id')).map(
+        (item) => item.key,
+      )
+
+    await expect(keys(like('key', 'b%'))).resolves.toEqual(['banana'])
+    await expect(keys(ilike('key', 'AP%'))).resolves.toEqual([
+      'apple',
+      'Apricot',
+    ])
+    await expect(keys(startsWith('key', '50%_'))).resolves.toEqual(['50%_off'])
+    await expect(keys(endsWith('key', 'cot'))).resolves.toEqual(['Apricot'])
+    await expect(keys(contains('key', '%'))).resolves.toEqual(['50%_off'])
+    await expect(keys(isNull('value'))).resolves.toEqual(['banana'])
+    await expect(keys(isNotNull('value'))).resolves.toHaveLength(3)
+    await expect(keys(between('id', 2, 3))).resolves.toEqual([
+      'Apricot',
+      'banana',
+    ])
+    await expect(keys(notIn('key', ['apple', 'banana']))).resolves.toEqual([
+      'Apricot',
+      '50%_off',
+    ])
+    await expect(
+      keys(not(or(eq('key', 'apple'), eq('key', 'banana')))),
+    ).resolves.toEqual(['Apricot', '50%_off'])
+  })
+
+  it('Should filter by property of related entities', async () => {
+    const authorSchema = base.set('table', 'memory_path_author')
+    const commentSchema = base.set('table', 'memory_path_comment')
+    const tagSchema = base.set('table', 'memory_path_tag')
+    const articleSchema = object({
+      ...base.props,
+      author: authorSchema.set('reference', 'strong'),
+      comments: commentSchema.array().set('reference', 'strong'),
+      tags: tagSchema
+        .array()
+        .set('reference', 'strong')
+        .decorate(join({ through: 'memory_path_article_tag' })),
+    }).set('table', 'memory_path_article')
+    await db.synchronize(articleSchema)
+
+    await db.from(articleSchema).insert({
+      key: 'first',
+      author: { key: 'alice' },
+      comments: [{ key: 'good' }, { key: 'bad' }],
+      tags: [{ key: 'news' }],
+    })
+    await db.from(articleSchema).insert({
+      key: 'second',
+      author: { key: 'bob' },
+      comments: [{ key: 'good' }],
+      tags: [],
+    })
+    const keys = async (
+      condition: QueryCondition<typeof articleSchema.props>,
+    ): Promise<string[]> =>
+      (await db.from(articleSchema).find(condition).orderBy('id')).map(
+        (item) => item.key,
+      )
+
+    await expect(keys(eq('author.key', 'bob'))).resolves.toEqual(['second'])
+    await expect(keys(eq('comments.key', 'good'))).resolves.toEqual([
+      'first',
+      'second',
+    ])
+    await expect(keys(eq('tags.key', 'news'))).resolves.toEqual(['first'])
+    await expect(keys(every('comments', eq('key', 'good')))).resolves.toEqual([
+      'second',
+    ])
+    await expect(keys(none('comments', eq('key', 'bad')))).resolves.toEqual([
+      'second',
+    ])
+    await expect(keys(some('tags'))).resolves.toEqual(['first'])
+  })
+
+  it('Should select only given properties and relation paths', async () => {
+    const authorSchema = base.set('table', 'memory_select_author')
+    const commentSchema = base.set('table', 'memory_select_comment')
+    const articleSchema = object({
+      ...base.props,
+      author: authorSchema.set('reference', 'strong'),
+      comments: commentSchema.array().set('reference', 'strong'),
+    }).set('table', 'memory_select_article')
+    await db.synchronize(articleSchema)
+    await db.from(articleSchema).insert({
+      key: 'article',
+      value: 'content',
+      author: { key: 'alice', value: 'bio' },
+      comments: [{ key: 'good' }, { key: 'bad' }],
+    })
+
+    const result = await db
+      .from(articleSchema)
+      .find(eq('key', 'article'))
+      .select('key', 'author.key', 'comments')
+    expect(result).toHaveLength(1)
+    expect(result[0]!.author).toStrictEqual({ key: 'alice' })
+    expect(result[0]!.comments.map((comment) => comment.key)).toEqual([
+      'good',
+      'bad',
+    ])
+    expect(result[0]).not.toHaveProperty('id')
+    expect(result[0]).not.toHaveProperty('value')
+  })
+
+  it('Should count and aggregate rows by group', async () => {
+    const orderSchema = object({
+      id: number().optional().set('id', true).set('generated', true),
+      status: string(),
+      amount: number(),
+    }).set('table', 'memory_aggregate')
+    await db.synchronize(orderSchema)
+    await db.from(orderSchema).insertMany([
+      { status: 'paid', amount: 10 },
+      { status: 'paid', amount: 30 },
+      { status: 'pending', amount: 5 },
+    ])
+
+    await expect(db.from(orderSchema).find().count()).resolves.toBe(3)
+    await expect(
+      db.from(orderSchema).find(eq('status', 'paid')).exists(),
+    ).resolves.toBe(true)
+    await expect(
+      db.from(orderSchema).find(eq('status', 'void')).exists(),
+    ).resolves.toBe(false)
+
+    const result = await db
+      .from(orderSchema)
+      .find()
+      .aggregate({ n: count(), total: sum('amount'), top: max('amount') })
+      .groupBy('status')
+      .having(gt('total', 5))
+    expect(result).toStrictEqual([{ status: 'paid', n: 2, total: 40, top: 30 }])
+  })
+
+  it('Should paginate forward and backward using cursor', async () => {
+    const pageSchema = base.set('table', 'memory_page')
+    await db.synchronize(pageSchema)
+    await db.from(pageSchema).insertMany(
+      ['a', 'b', 'a', 'c', 'b'].map((key, index) => ({
+        key,
+        value: `${index}`,
+      })),
+    )
+    const query = db.from(pageSchema).find().orderBy('key', 'desc')
+
+    const first = await query.paginate({ first: 2 })
+    expect(first.items.map((item) => item.value)).toEqual(['3', '1'])
+    expect(first.pageInfo).toHaveProperty('hasNextPage', true)
+    expect(first.pageInfo).toHaveProperty('hasPreviousPage', false)
+
+    const second = await query.paginate({
+      first: 2,
+      after: first.pageInfo.endCursor,
+    })
+    expect(second.items.map((item) => item.value)).toEqual(['4', '0'])
+
+    const last = await query.paginate({
+      first: 2,
+      after: second.pageInfo.endCursor,
+    })
+    expect(last.items.map((item) => item.value)).toEqual(['2'])
+    expect(last.pageInfo).toHaveProperty('hasNextPage', false)
+
+    const previous = await query.paginate({
+      last: 2,
+      before: last.pageInfo.startCursor,
+    })
+    expect(previous.items.map((item) => item.value)).toEqual(['4', '0'])
+    expect(previous.pageInfo).toHaveProperty('hasPreviousPage', true)
+    expect(previous.pageInfo).toHaveProperty('hasNextPage', true)
+  })
+
+  it('Should paginate on nullable column, ordering null first', async () => {
+    const pageSchema = base.set('table', 'memory_page_nullable')
+    await db.synchronize(pageSchema)
+    await db.from(pageSchema).insertMany(
+      ['2', undefined, '1', undefined, '2', '3'].map((value, index) => ({
+        key: `${index}`,
+        value,
+      })),
+    )
+    const readAll = async (order: 'asc' | 'desc'): Promise<string[]> => {
+      const query = db.from(pageSchema).find().orderBy('value', order)
+      const keys: string[] = []
+      let after: string | undefined
+      do {
+        const page = await query.paginate({
+          first: 2,
+          ...(after !== undefined && { after }),
+        })
+        keys.push(...page.items.map((item) => item.key))
+        after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined
+      } while (after !== undefined)
+      return keys
+    }
+
+    await expect(readAll('asc')).resolves.toEqual([
+      '1',
+      '3',
+      '2',
+      '0',
+      '4',
+      '5',
+    ])
+    await expect(readAll('desc')).resolves.toEqual([
+      '5',
+      '0',
+      '4',
+      '2',
+      '1',
+      '3',
+    ])
+
+    const query = db.from(pageSchema).find().orderBy('value')
+    const last = await query.paginate({ last: 3 })
+    expect(last.items.map((item) => item.key)).toEqual(['0', '4', '5'])
+    const previous = await query.paginate({
+      last: 3,
+      before: last.pageInfo.startCursor,
+    })
+    expect(previous.items.map((item) => item.key)).toEqual(['1', '3', '2'])
+  })
+
+  it('Should read page by its number with total count', async () => {
+    const result = await db
+      .from(schema)
+      .find(gt('id', 3))
+      .orderBy('id')
+      .page(2, 3)
+    expect(result.items.map((item) => item.id)).toEqual([7, 8, 9])
+    expect(result.items[0]!.relation).toHaveLength(1)
+    expect(result).toHaveProperty('total', 7)
+    expect(result).toHaveProperty('page', 2)
+    expect(result).toHaveProperty('pageSize', 3)
+    expect(result).toHaveProperty('pageCount', 3)
+    await expect(db.from(schema).find().page(0, 3)).rejects.toThrow()
+  })
+
+  it('Should stream entities in batches', async () => {
+    const items = []
+    for await (const item of db
+      .from(schema)
+      .find(gt('id', 2))
+      .stream({ batchSize: 3 })) {
+      items.push(item)
+    }
+    expect(items.map((item) => item.id)).toEqual([3, 4, 5, 6, 7, 8, 9, 10])
+    expect(items.every((item) => item.relation.length === 1)).toBe(true)
+  })
+
+  it('Should stream entities up to limit and reject offset', async () => {
+    const items = []
+    for await (const item of db
+      .from(schema)
+      .find()
+      .orderBy('id')
+      .limit(4)
+      .stream({ batchSize: 3 })) {
+      items.push(item)
+    }
+    expect(items.map((item) => item.id)).toEqual([1, 2, 3, 4])
+
+    const stream = db.from(schema).find().offset(2).stream()
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow(
+      'Offset is not supported by stream',
+    )
+  })
+
+  it('Should reject stream batch size other than positive integer', async () => {
+    for (const batchSize of [0, -1, 1.5, NaN]) {
+      const stream = db.from(schema).find().stream({ batchSize })
+      await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow(
+        'Batch size must be a positive integer',
+      )
+    }
+  })
+
+  it('Should find or get a single entity by id or condition', async () => {
+    const found = await db.from(schema).findById(2)
+    expect(found).toHaveProperty('key', 'key-1')
+    expect(found!.relation).toHaveLength(1)
+    await expect(db.from(schema).findById({ id: 3 })).resolves.toHaveProperty(
+      'key',
+      'key-2',
+    )
+    await expect(db.from(schema).findById(100)).resolves.toBeUndefined()
+    await expect(db.from(schema).findById({ id: undefined })).rejects.toThrow(
+      'Id of "memory_source" is missing "id"',
+    )
+    await expect(
+      // @ts-expect-error only id properties are accepted
+      db.from(schema).findById({ id: 3, key: 'key-2' }),
+    ).rejects.toThrow('Id of "memory_source" has unknown property "key"')
+    await expect(
+      db.from(schema).findOne(eq('key', 'key-4')),
+    ).resolves.toHaveProperty('id', 5)
+    await expect(
+      db.from(schema).findOne(eq('key', 'missing')),
+    ).resolves.toBeUndefined()
+
+    await expect(db.from(schema).getById(100)).rejects.toThrow(
+      EntityNotFoundError,
+    )
+    await expect(
+      db.from(schema).getOne(eq('key', 'missing')),
+    ).rejects.toMatchObject({
+      table: 'memory_source',
+      condition: { operator: 'and' },
+    })
+  })
+
+  it('Should throw when synchronize called on other client', async () => {
+    const other = new DataSource({ client: 'sqlite', filename: ':memory:' })
+    await expect(other.synchronize(schema)).rejects.toThrow()
+    await other.close()
+  })
+
+  afterAll(() => db.close())
+})
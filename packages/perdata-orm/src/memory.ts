@@ -0,0 +1,109 @@
+import { Knex } from 'knex'
+import {
+  ColumnMetadata,
+  ColumnType,
+  TableMetadata,
+  collectTables,
+} from './metadata'
+
+/**
+ * Create tables for given {@link TableMetadata}, all of its related tables and
+ * junction tables inside in-memory database if not exists yet
+ *
+ * @param connection Connection to in-memory database
+ * @param tables {@link TableMetadata} to be created
+ */
+export async function createMemoryTables(
+  connection: Knex,
+  tables: TableMetadata[],
+): Promise<void> {
+  for (const [name, instances] of collectTables(tables)) {
+    if (await connection.schema.hasTable(name)) {
+      continue
+    }
+    const columns: Map<string, ColumnMetadata> = new Map(
+      instances
+        .flatMap((table) => table.baseColumns)
+        .map((column) => [column.columnName, column]),
+    )
+    await connection.schema.createTable(name, (builder) => {
+      columns.forEach((column) => createColumn(builder, column))
+      const primaries = [...columns.values()]
+        .filter((column) => column.id && !column.generated)
+        .map((column) => column.columnName)
+      if (primaries.length > 0) {
+        builder.primary(primaries)
+      }
+    })
+  }
+
+  const relations = [...collectTables(tables).values()]
+    .flat()
+    .flatMap((table) => table.relationColumns)
+  for (const relation of relations) {
+    const through = relation.through
+    if (
+      through === undefined ||
+      (await connection.schema.hasTable(through.name))
+    ) {
+      continue
+    }
+    await connection.schema.createTable(through.name, (builder) => {
+      builder
+        .specificType(
+          through.sourceColumn,
+          getMemoryType(relation.sourceColumns[0]!),
+        )
+        .notNullable()
+      builder
+        .specificType(
+          through.foreignColumn,
+          getMemoryType(relation.foreignColumns[0]!),
+        )
+        .notNullable()
+      builder.primary([through.sourceColumn, through.foreignColumn])
+    })
+  }
+}
+
+/**
+ * SQLite type of each value type. Type affinity is taken from type name, so
+ * JSON and bigint are stored as text to be read back without any loss
+ */
+const memoryTypes: Record<ColumnType, string> = {
+  string: 'text',
+  number: 'real',
+  boolean: 'boolean',
+  bigint: 'text',
+  date: 'datetime',
+  object: 'text',
+  unknown: 'blob',
+}
+
+function getMemoryType(column: ColumnMetadata): string {
+  if (column.collection) {
+    // collection is stored as JSON
+    return 'text'
+  } else if (column.id && column.valueType === 'number') {
+    return 'integer'
+  }
+  return memoryTypes[column.valueType]
+}
+
+function createColumn(
+  builder: Knex.CreateTableBuilder,
+  column: ColumnMetadata,
+): void {
+  if (column.id && column.generated) {
+    builder.increments(column.columnName)
+    return
+  }
+
+  const newColumn = builder.specificType(
+    column.columnName,
+    getMemoryType(column),
+  )
+  if (column.id || !column.nullable) {
+    newColumn.notNullable()
+  }
+}
@@ -1,5 +1,6 @@
 import { number, object, string } from 'pertype'
-import { MetadataRegistry, TableMetadata } from './metadata'
+import { ColumnType, MetadataRegistry, TableMetadata } from './metadata'
+import { snakeCaseNaming } from './naming'
 
 describe('TableMetadata', () => {
   const base = object({
@@ -40,6 +41,7 @@ describe('TableMetadata', () => {
       id: false,
       generated: false,
       nullable: false,
+      valueType: 'string',
       collection: false,
     })
     testColumn({
@@ -48,6 +50,7 @@ describe('TableMetadata', () => {
       id: true,
       generated: false,
       nullable: false,
+      valueType: 'number',
       collection: false,
     })
     testColumn({
@@ -56,6 +59,7 @@ describe('TableMetadata', () => {
       id: false,
       generated: true,
       nullable: false,
+      valueType: 'number',
       collection: false,
     })
     testColumn({
@@ -64,6 +68,7 @@ describe('TableMetadata', () => {
       id: false,
       generated: true,
       nullable: false,
+      valueType: 'number',
       collection: false,
     })
     testColumn({
@@ -72,6 +77,7 @@ describe('TableMetadata', () => {
       id: false,
       generated: true,
       nullable: false,
+      valueType: 'number',
       collection: false,
     })
     testColumn({
@@ -80,6 +86,7 @@ describe('TableMetadata', () => {
       id: false,
       generated: false,
       nullable: true,
+      valueType: 'string',
       collection: false,
     })
     testColumn({
@@ -88,6 +95,7 @@ describe('TableMetadata', () => {
       id: false,
       generated: false,
       nullable: false,
+      valueType: 'string',
       collection: true,
     })
   })
@@ -104,6 +112,167 @@ describe('TableMetadata', () => {
 
     expect(table.columns).toHaveLength(5)
   })
+
+  describe('Composite id', () => {
+    const member = object({
+      tenant: string().set('id', true),
+      code: number().set('id', true),
+      name: string(),
+    }).set('entity', 'member')
+    const schema = object({
+      id: base.props.id,
+      member: member,
+    }).set('entity', 'badge')
+    const table = new MetadataRegistry().get(schema)
+    const column = table.relationColumns[0]!
+
+    it('Should read every id column', () => {
+      expect(column.foreignTable.ids.map((column) => column.name)).toEqual([
+        'tenant',
+        'code',
+      ])
+      expect(() => column.foreignTable.id).toThrow()
+    })
+
+    it('Should add join column for every id column', () => {
+      expect(column.sourceColumns.map((column) => column.name)).toEqual([
+        'member_tenant',
+        'member_code',
+      ])
+      expect(column.foreignColumns).toStrictEqual(column.foreignTable.ids)
+    })
+
+    it('Should use declared join column names', () => {
+      const named = object({
+        id: base.props.id,
+        member: member.set('joinName', ['tenant', 'member_code']),
+      }).set('entity', 'badge')
+      const namedTable = new MetadataRegistry().get(named)
+      expect(namedTable.baseColumns.map((column) => column.name)).toEqual([
+        'id',
+        'tenant',
+        'member_code',
+      ])
+    })
+
+    it('Should throw when join column names do not match id columns', () => {
+      const invalid = object({
+        id: base.props.id,
+        member: member.set('joinName', 'member_id'),
+      }).set('entity', 'badge')
+      expect(() => new MetadataRegistry().get(invalid)).toThrow()
+    })
+  })
+
+  describe('RelationColumnMetadata through junction table', () => {
+    const tag = object({ id: base.props.id, name: string() }).set(
+      'entity',
+      'tag',
+    )
+    const schema = object({
+      id: base.props.id,
+      tags: tag.array().set('joinThrough', 'post_tag'),
+    }).set('entity', 'post')
+    const table = new MetadataRegistry().get(schema)
+    const column = table.relationColumns[0]!
+
+    it('Should not add join column into both tables', () => {
+      expect(table.baseColumns).toHaveLength(1)
+      expect(column.foreignTable.baseColumns).toHaveLength(2)
+    })
+
+    it('Should link both tables by its id', () => {
+      expect(column.sourceColumns).toStrictEqual([table.id])
+      expect(column.foreignColumns).toStrictEqual([column.foreignTable.id])
+    })
+
+    it('Should read junction table and its default column names', () => {
+      expect(column.through).toStrictEqual({
+        name: 'post_tag',
+        sourceColumn: 'post_id',
+        foreignColumn: 'tag_id',
+      })
+    })
+
+    it('Should read junction columns referencing either side', () => {
+      expect(table.junctions).toStrictEqual([['post_tag', 'post_id']])
+      expect(column.foreignTable.junctions).toStrictEqual([
+        ['post_tag', 'tag_id'],
+      ])
+    })
+
+    it('Should read orphan removal of relation', () => {
+      expect(column.orphanRemoval).toBe(false)
+      const orphan = object({
+        id: base.props.id,
+        tags: tag.array().set('orphanRemoval', true),
+      }).set('entity', 'post')
+      expect(
+        new MetadataRegistry().get(orphan).relationColumns[0]!.orphanRemoval,
+      ).toBe(true)
+    })
+
+    it('Should throw when relation is not a collection', () => {
+      const invalid = object({
+        id: base.props.id,
+        tag: tag.set('joinThrough', 'post_tag'),
+      }).set('entity', 'post')
+      expect(() => new MetadataRegistry().get(invalid)).toThrow()
+    })
+
+    it('Should throw when either table has composite id', () => {
+      const label = object({
+        scope: string().set('id', true),
+        name: string().set('id', true),
+      }).set('entity', 'label')
+      const invalid = object({
+        id: base.props.id,
+        labels: label.array().set('joinThrough', 'post_label'),
+      }).set('entity', 'post')
+      expect(() => new MetadataRegistry().get(invalid)).toThrow(
+        'does not support composite ids',
+      )
+    })
+  })
+
+  describe('Column name', () => {
+    const author = object({
+      authorId: base.props.id,
+      fullName: string(),
+    }).set('entity', 'author')
+    const schema = object({
+      postId: base.props.id,
+      createdAt: string(),
+      title: string().set('column', 'post_title'),
+      author,
+    }).set('entity', 'post')
+
+    it('Should use property name as column name by default', () => {
+      const table = new MetadataRegistry().get(schema)
+      expect(table.column('createdAt')?.columnName).toBe('createdAt')
+    })
+
+    it('Should convert property name using naming strategy', () => {
+      const table = new MetadataRegistry(snakeCaseNaming).get(schema)
+      expect(table.column('createdAt')?.columnName).toBe('created_at')
+      expect(table.column('author_authorId')?.columnName).toBe(
+        'author_author_id',
+      )
+    })
+
+    it('Should use declared column name over naming strategy', () => {
+      const table = new MetadataRegistry(snakeCaseNaming).get(schema)
+      expect(table.column('title')?.columnName).toBe('post_title')
+      expect(table.columnName('title')).toBe('post_title')
+    })
+
+    it('Should map row keyed by column name into property name', () => {
+      const table = new MetadataRegistry(snakeCaseNaming).get(schema)
+      expect(
+        table.fromRow({ post_id: 1, created_at: 'now', post_title: 'a' }),
+      ).toStrictEqual({ postId: 1, createdAt: 'now', title: 'a' })
+    })
+  })
 })
 
 function testColumn({
@@ -112,6 +281,7 @@ function testColumn({
   id,
   generated,
   nullable,
+  valueType,
   collection,
 }: {
   table: TableMetadata
@@ -119,6 +289,7 @@ function testColumn({
   id: boolean
   generated: boolean
   nullable: boolean
+  valueType: ColumnType
   collection: boolean
 }): void {
   const column = table.column(name)
@@ -134,6 +305,8 @@ function testColumn({
       expect(column!.generated).toBe(generated))
     it(`Should have "nullable" set as "${nullable}"`, () =>
       expect(column!.nullable).toBe(nullable))
+    it(`Should have "valueType" set as "${valueType}"`, () =>
+      expect(column!.valueType).toBe(valueType))
     it(`Should have "collection" set as "${collection}"`, () =>
       expect(column!.collection).toBe(collection))
   })
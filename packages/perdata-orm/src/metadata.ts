@@ -11,11 +11,17 @@ import {
   string,
   union,
 } from 'pertype'
+import { NamingStrategy, identityNaming } from './naming'
 import { SchemaReader } from './util/reader'
 
 export class MetadataRegistry {
   private readonly storage: Map<string, TableMetadata> = new Map()
 
+  public constructor(
+    /** Convert property name into column name when not declared explicitly */
+    public readonly naming: NamingStrategy = identityNaming,
+  ) {}
+
   public tables(): IterableIterator<TableMetadata> {
     return this.storage.values()
   }
@@ -43,12 +49,14 @@ export class MetadataRegistry {
 export class TableMetadata {
   public readonly baseColumns: ColumnMetadata[] = []
   public readonly relationColumns: RelationColumnMetadata[] = []
+  public readonly naming: NamingStrategy
 
   public constructor(
-    registry: MetadataRegistry,
+    private readonly registry: MetadataRegistry,
     public readonly name: string,
     schema: Schema,
   ) {
+    this.naming = registry.naming
     const props = readProperties(schema)
     for (const [key, schema] of Object.entries(props)) {
       const relation = readEntity(schema)
@@ -72,16 +80,80 @@ export class TableMetadata {
     return this.columns.find((column) => column.name === name)
   }
 
+  /**
+   * Get database column name of given property name
+   *
+   * @param name Property name
+   * @returns Column name, or the given name if property is not found
+   */
+  public columnName(name: string): string {
+    return this.column(name)?.columnName ?? name
+  }
+
+  /**
+   * Map database row keyed by column name into value keyed by property name
+   *
+   * @param row Row returned by database
+   * @returns Base column values keyed by property name
+   */
+  public fromRow(row: AnyRecord): AnyRecord {
+    return Object.fromEntries(
+      this.baseColumns
+        .filter((column) => Object.hasOwn(row, column.columnName))
+        .map((column) => [column.name, row[column.columnName]]),
+    )
+  }
+
   public get columns(): ColumnMetadata[] {
     return this.baseColumns.concat(...this.relationColumns)
   }
 
+  /** Every id column, several id columns form a composite id */
+  public get ids(): ColumnMetadata[] {
+    const columns = this.baseColumns.filter((column) => column.id)
+    if (columns.length > 0) {
+      return columns
+    }
+    throw new Error('This table do not have id column declared')
+  }
+
+  /** The only id column, throw if table has composite id */
   public get id(): ColumnMetadata {
-    const column = this.baseColumns.find((column) => column.id)
-    if (column !== undefined) {
+    const [column, ...others] = this.ids
+    if (column !== undefined && others.length === 0) {
       return column
     }
-    throw new Error('This table do not have id column declared')
+    throw new Error(`Table "${this.name}" has composite id, use "ids" instead`)
+  }
+
+  /**
+   * Junction table and its column referencing this table, from many-to-many
+   * relations of every registered table on either side
+   */
+  public get junctions(): [string, string][] {
+    const links: Map<string, [string, string]> = new Map()
+    const relations = [...this.registry.tables(), this].flatMap(
+      (table) => table.relationColumns,
+    )
+    for (const relation of relations) {
+      const through = relation.through
+      if (through === undefined) {
+        continue
+      }
+      if (relation.table.name === this.name) {
+        links.set(`${through.name}.${through.sourceColumn}`, [
+          through.name,
+          through.sourceColumn,
+        ])
+      }
+      if (relation.foreignTable.name === this.name) {
+        links.set(`${through.name}.${through.foreignColumn}`, [
+          through.name,
+          through.foreignColumn,
+        ])
+      }
+    }
+    return [...links.values()]
   }
 
   public get baseSchema(): ObjectSchema<AnyRecord<Schema>> {
@@ -117,11 +189,15 @@ export class ColumnMetadata {
   public readonly nullable: boolean
   /** Mark if column is collection column */
   public readonly collection: boolean
+  /** Type of column value, or its item if column is a collection */
+  public readonly valueType: ColumnType
+  /** Column name in database */
+  public readonly columnName: string
 
   public constructor(
     /** {@link TableMetadata} column owner */
     public readonly table: TableMetadata,
-    /** Column name */
+    /** Property name */
     public readonly name: string,
     /** {@link Schema} used to declare column */
     public readonly schema: Schema,
@@ -132,17 +208,34 @@ export class ColumnMetadata {
     this.generated = readGenerated(schema)
     this.nullable = detectNullable(schema)
     this.collection = detectCollection(schema)
+    this.valueType = detectType(schema)
+    // join columns inherit schema of referenced column, but not its name
+    this.columnName =
+      (declared ? readColumnName(schema) : undefined) ?? table.naming(name)
   }
 }
 
+export type ColumnType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'bigint'
+  | 'date'
+  | 'object'
+  | 'unknown'
+
 export class RelationColumnMetadata
   extends ColumnMetadata
   implements RelationMetadata
 {
   public readonly owner: 'source' | 'foreign'
-  public readonly sourceColumn: ColumnMetadata
-  public readonly foreignColumn: ColumnMetadata
+  public readonly sourceColumns: ColumnMetadata[]
+  public readonly foreignColumns: ColumnMetadata[]
   public readonly type: 'strong' | 'weak'
+  /** Remove entries dropped from collection instead of only unlinking them */
+  public readonly orphanRemoval: boolean
+  /** Junction table linking both tables, only for many-to-many relation */
+  public readonly through: JunctionMetadata | undefined
 
   public constructor(
     registry: MetadataRegistry,
@@ -156,54 +249,131 @@ export class RelationColumnMetadata
     const sourceTable = this.table
     const foreignTable = registry.get(schema)
 
+    this.type = readReference(schema)
+    this.orphanRemoval = readOrphanRemoval(schema)
+
+    const through = readJoinThrough(schema)
+    if (through !== undefined) {
+      if (!this.collection) {
+        throw new Error(
+          `Relation "${name}" through junction table must be a collection`,
+        )
+      }
+      if (sourceTable.ids.length !== 1 || foreignTable.ids.length !== 1) {
+        throw new Error(
+          `Relation "${name}" through junction table does not support composite ids`,
+        )
+      }
+      // both tables are linked only by junction table
+      this.owner = 'foreign'
+      this.sourceColumns = [sourceTable.id]
+      this.foreignColumns = [foreignTable.id]
+      this.through = {
+        name: through,
+        sourceColumn:
+          readJoinNames(schema)?.[0] ??
+          `${sourceTable.name}_${sourceTable.id.columnName}`,
+        foreignColumn:
+          readJoinInverseName(schema) ??
+          `${foreignTable.name}_${foreignTable.id.columnName}`,
+      }
+      return
+    }
+
     this.owner = this.collection ? 'foreign' : readJoinOwner(schema)
+    this.through = undefined
 
     const targetTable = this.owner === 'source' ? foreignTable : sourceTable
-    const targetColumn = targetTable.id
+    const targetColumns = targetTable.ids
 
-    const joinColumnName =
-      readJoinName(schema) ?? `${targetTable.name}_${targetColumn.name}`
+    const joinColumnNames =
+      readJoinNames(schema) ??
+      targetColumns.map((column) => `${targetTable.name}_${column.name}`)
+    if (joinColumnNames.length !== targetColumns.length) {
+      throw new Error(
+        `Relation "${name}" must declare ${targetColumns.length} join column names`,
+      )
+    }
 
     const ownerTable = this.owner === 'source' ? sourceTable : foreignTable
-    const ownerColumn =
-      ownerTable.column(joinColumnName) ??
-      (() => {
-        let joinSchema = targetColumn.schema
-          .set('id', false)
-          .set('generated', false)
-
-        if (this.nullable) {
-          joinSchema = joinSchema.optional()
-        }
-        const newColumn = new ColumnMetadata(
-          ownerTable,
-          joinColumnName,
-          joinSchema,
-          false,
-        )
-        ownerTable.baseColumns.push(newColumn)
-        return newColumn
-      })()
+    const ownerColumns = targetColumns.map((targetColumn, index) => {
+      const joinColumnName = joinColumnNames[index]!
+      const column = ownerTable.column(joinColumnName)
+      if (column !== undefined) {
+        return column
+      }
 
-    this.sourceColumn = this.owner === 'source' ? ownerColumn : targetColumn
-    this.foreignColumn = this.owner === 'source' ? targetColumn : ownerColumn
+      let joinSchema = targetColumn.schema
+        .set('id', false)
+        .set('generated', false)
 
-    this.type = readReference(schema)
+      if (this.nullable) {
+        joinSchema = joinSchema.optional()
+      }
+      const newColumn = new ColumnMetadata(
+        ownerTable,
+        joinColumnName,
+        joinSchema,
+        false,
+      )
+      ownerTable.baseColumns.push(newColumn)
+      return newColumn
+    })
+
+    this.sourceColumns = this.owner === 'source' ? ownerColumns : targetColumns
+    this.foreignColumns = this.owner === 'source' ? targetColumns : ownerColumns
   }
 
   public get foreignTable(): TableMetadata {
-    return this.foreignColumn.table
+    return this.foreignColumns[0]!.table
   }
 }
 
+/**
+ * Collect given tables and all of their related tables, grouped by table name.
+ * The same table may be represented by several {@link TableMetadata}, each of
+ * them may hold join columns declared by other tables
+ *
+ * @param tables {@link TableMetadata} to be collected
+ * @returns {@link TableMetadata} grouped by its name
+ */
+export function collectTables(
+  tables: Iterable<TableMetadata>,
+): Map<string, TableMetadata[]> {
+  const storage: Map<string, TableMetadata[]> = new Map()
+  const visit = (table: TableMetadata): void => {
+    const instances = storage.get(table.name) ?? []
+    if (!instances.includes(table)) {
+      storage.set(table.name, instances.concat(table))
+      table.relationColumns.forEach((column) => visit(column.foreignTable))
+    }
+  }
+  for (const table of tables) {
+    visit(table)
+  }
+  return storage
+}
+
+export interface JunctionMetadata {
+  /** Junction table name */
+  readonly name: string
+  /** Column in junction table referencing source table id */
+  readonly sourceColumn: string
+  /** Column in junction table referencing foreign table id */
+  readonly foreignColumn: string
+}
+
 export interface RelationMetadata {
   /** Owner of join column */
   readonly owner: 'source' | 'foreign'
-  /** Column used as join column in source table */
-  readonly sourceColumn: ColumnMetadata
-  /** Column used as join column in foreign table */
-  readonly foreignColumn: ColumnMetadata
-  /** Relation type (strong will also update the referenced value) */
+  /** Columns used as join column in source table */
+  readonly sourceColumns: ColumnMetadata[]
+  /** Columns used as join column in foreign table, in the same order */
+  readonly foreignColumns: ColumnMetadata[]
+  /**
+   * Relation type, strong will also insert, update and remove the referenced
+   * entries, while weak only maintain join column of existing entries
+   */
   readonly type: 'weak' | 'strong'
 }
 
@@ -226,6 +396,14 @@ function readEntity(schema: Schema): string | undefined {
   )
 }
 
+function readColumnName(schema: Schema): string | undefined {
+  return (
+    SchemaReader.read(schema, 'column', string().optional()) ||
+    SchemaReader.read(schema, 'columnName', string().optional()) ||
+    SchemaReader.read(schema, 'column_name', string().optional())
+  )
+}
+
 function readId(schema: Schema): boolean {
   return SchemaReader.read(schema, 'id', bool().optional()) ?? false
 }
@@ -258,6 +436,33 @@ function detectCollection(schema: Schema): boolean {
   )
 }
 
+function detectType(schema: Schema): ColumnType {
+  return (
+    SchemaReader.traverse<ColumnType>(
+      (schema, innerValue) => innerValue ?? probeType(schema),
+      schema,
+    ) ?? 'unknown'
+  )
+}
+
+/** Detect value type by checking which sample value is accepted by schema */
+function probeType(schema: Schema): ColumnType {
+  if (schema instanceof ObjectSchema) {
+    return 'object'
+  } else if (schema.is('')) {
+    return 'string'
+  } else if (schema.is(0)) {
+    return 'number'
+  } else if (schema.is(false)) {
+    return 'boolean'
+  } else if (schema.is(BigInt(0))) {
+    return 'bigint'
+  } else if (schema.is(new Date(0))) {
+    return 'date'
+  }
+  return 'unknown'
+}
+
 function readJoinOwner(schema: Schema): 'source' | 'foreign' {
   const options = union(literal('source'), literal('foreign')).optional()
   return (
@@ -268,11 +473,36 @@ function readJoinOwner(schema: Schema): 'source' | 'foreign' {
   )
 }
 
-function readJoinName(schema: Schema): string | undefined {
+function readJoinNames(schema: Schema): string[] | undefined {
+  const type = union(string(), string().array()).optional()
+  const names =
+    SchemaReader.read(schema, 'joinName', type) ||
+    SchemaReader.read(schema, 'join_name', type) ||
+    SchemaReader.read(schema, 'join', type)
+  return typeof names === 'string' ? [names] : names
+}
+
+function readJoinInverseName(schema: Schema): string | undefined {
+  return (
+    SchemaReader.read(schema, 'joinInverseName', string().optional()) ||
+    SchemaReader.read(schema, 'join_inverse_name', string().optional())
+  )
+}
+
+function readJoinThrough(schema: Schema): string | undefined {
+  return (
+    SchemaReader.read(schema, 'joinThrough', string().optional()) ||
+    SchemaReader.read(schema, 'join_through', string().optional()) ||
+    SchemaReader.read(schema, 'through', string().optional())
+  )
+}
+
+function readOrphanRemoval(schema: Schema): boolean {
   return (
-    SchemaReader.read(schema, 'joinName', string().optional()) ||
-    SchemaReader.read(schema, 'join_name', string().optional()) ||
-    SchemaReader.read(schema, 'join', string().optional())
+    SchemaReader.read(schema, 'orphanRemoval', bool().optional()) ||
+    SchemaReader.read(schema, 'joinOrphanRemoval', bool().optional()) ||
+    SchemaReader.read(schema, 'join_orphan_removal', bool().optional()) ||
+    false
   )
 }
 
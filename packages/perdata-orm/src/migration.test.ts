@@ -0,0 +1,249 @@
+import { number, string } from 'pertype'
+import { MetadataRegistry } from './metadata'
+import { defineTables, diffTables, renderMigration } from './migration'
+import { entity, generate, id, join } from './schema'
+
+describe('Migration', () => {
+  const author = entity('author', {
+    id: number().decorate(id(), generate()),
+    name: string(),
+  })
+  const post = entity('post', {
+    id: number().decorate(id(), generate()),
+    title: string(),
+    summary: string().optional(),
+    author: author,
+  })
+  const tables = defineTables([new MetadataRegistry().get(post)])
+
+  describe('defineTables', () => {
+    it('Should define table and its relations', () => {
+      expect(tables.map((table) => table.name)).toEqual(['post', 'author'])
+    })
+
+    it('Should define join column with referenced column type', () => {
+      const table = tables.find((table) => table.name === 'post')!
+      expect(table.columns).toContainEqual({
+        name: 'author_id',
+        type: 'integer',
+        nullable: false,
+        primary: false,
+        generated: false,
+      })
+      expect(table.foreignKeys).toEqual([
+        {
+          columns: ['author_id'],
+          foreignTable: 'author',
+          foreignColumns: ['id'],
+        },
+      ])
+    })
+
+    it('Should define junction table of many-to-many relation', () => {
+      const tag = entity('tag', {
+        id: number().decorate(id(), generate()),
+        name: string(),
+      })
+      const article = entity('article', {
+        id: string().decorate(id()),
+        tags: tag.array().decorate(join({ through: 'article_tag' })),
+      })
+      const definitions = defineTables([new MetadataRegistry().get(article)])
+      expect(definitions.map((table) => table.name)).toEqual([
+        'article',
+        'tag',
+        'article_tag',
+      ])
+      expect(definitions[2]).toStrictEqual({
+        name: 'article_tag',
+        columns: [
+          {
+            name: 'article_id',
+            type: 'text',
+            nullable: false,
+            primary: true,
+            generated: false,
+          },
+          {
+            name: 'tag_id',
+            type: 'integer',
+            nullable: false,
+            primary: true,
+            generated: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columns: ['article_id'],
+            foreignTable: 'article',
+            foreignColumns: ['id'],
+          },
+          { columns: ['tag_id'], foreignTable: 'tag', foreignColumns: ['id'] },
+        ],
+      })
+    })
+  })
+
+  describe('diffTables', () => {
+    it('Should create missing tables before adding foreign keys', () => {
+      const operations = diffTables(tables, [])
+      expect(operations.map((operation) => operation.type)).toEqual([
+        'createTable',
+        'createTable',
+        'addForeignKey',
+      ])
+    })
+
+    it('Should add, alter and drop columns of existing table', () => {
+      const operations = diffTables(
+        tables.filter((table) => table.name === 'author'),
+        [
+          {
+            name: 'author',
+            columns: [
+              {
+                name: 'id',
+                type: 'integer',
+                nullable: false,
+                primary: true,
+                generated: true,
+              },
+              {
+                name: 'name',
+                type: 'text',
+                nullable: true,
+                primary: false,
+                generated: false,
+              },
+              {
+                name: 'legacy',
+                type: 'text',
+                nullable: true,
+                primary: false,
+                generated: false,
+              },
+            ],
+            foreignKeys: [],
+          },
+        ],
+      )
+      expect(operations).toHaveLength(2)
+      expect(operations[0]).toHaveProperty('type', 'alterColumn')
+      expect(operations[1]).toHaveProperty('type', 'dropColumn')
+    })
+
+    it('Should alter column type and drop foreign key before its column', () => {
+      const postTable = tables.find((table) => table.name === 'post')!
+      const operations = diffTables(
+        [
+          {
+            ...postTable,
+            columns: postTable.columns.filter(
+              (column) => column.name !== 'author_id',
+            ),
+            foreignKeys: [],
+          },
+        ],
+        [
+          {
+            ...postTable,
+            columns: postTable.columns.map((column) =>
+              column.name === 'title'
+                ? { ...column, type: 'character varying' }
+                : column,
+            ),
+          },
+        ],
+      )
+      expect(operations.map((operation) => operation.type)).toEqual([
+        'dropForeignKey',
+        'alterColumn',
+        'dropColumn',
+      ])
+
+      const source = renderMigration(operations)
+      expect(source).toContain(
+        "table.specificType('title', 'text').notNullable().alter()",
+      )
+      expect(source).toContain(
+        "table.specificType('title', 'character varying').notNullable().alter()",
+      )
+      expect(source.indexOf("table.dropForeign('author_id')")).toBeLessThan(
+        source.indexOf("table.dropColumn('author_id')"),
+      )
+    })
+
+    it('Should treat type alias read from database as the same type', () => {
+      const column = {
+        name: 'scores',
+        type: 'integer[]',
+        nullable: false,
+        primary: false,
+        generated: false,
+      }
+      expect(
+        diffTables(
+          [{ name: 'score', columns: [column], foreignKeys: [] }],
+          [
+            {
+              name: 'score',
+              columns: [{ ...column, type: 'int4[]' }],
+              foreignKeys: [],
+            },
+          ],
+        ),
+      ).toHaveLength(0)
+    })
+
+    it('Should return no operation when database is up to date', () => {
+      expect(diffTables(tables, tables)).toHaveLength(0)
+    })
+  })
+
+  describe('renderMigration', () => {
+    const source = renderMigration(diffTables(tables, []))
+
+    it('Should render up and down functions', () => {
+      expect(source).toContain('export async function up(knex: Knex)')
+      expect(source).toContain('export async function down(knex: Knex)')
+    })
+
+    it('Should render table creation and its reversal', () => {
+      expect(source).toContain("await knex.schema.createTable('post'")
+      expect(source).toContain("table.increments('id')")
+      expect(source).toContain(
+        "table.specificType('title', 'text').notNullable()",
+      )
+      expect(source).toContain("await knex.schema.dropTable('post')")
+    })
+
+    it('Should render composite primary key and foreign key', () => {
+      const member = entity('member', {
+        tenant: string().decorate(id()),
+        code: number().decorate(id()),
+      })
+      const badge = entity('badge', {
+        id: number().decorate(id(), generate()),
+        member: member,
+      })
+      const composite = renderMigration(
+        diffTables(defineTables([new MetadataRegistry().get(badge)]), []),
+      )
+      expect(composite).toContain(
+        "table.specificType('tenant', 'text').notNullable()",
+      )
+      expect(composite).toContain("table.primary(['tenant', 'code'])")
+      expect(composite).toContain(
+        "table.foreign(['member_tenant', 'member_code'])" +
+          ".references(['tenant', 'code']).inTable('member')",
+      )
+    })
+
+    it('Should render foreign key and its reversal', () => {
+      expect(source).toContain(
+        "table.foreign('author_id').references('id').inTable('author')",
+      )
+      expect(source).toContain("table.dropForeign('author_id')")
+    })
+  })
+})
@@ -0,0 +1,519 @@
+import { Knex } from 'knex'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import {
+  ColumnDefinition,
+  ForeignKeyDefinition,
+  TableDefinition,
+  introspect,
+} from './introspect'
+import {
+  ColumnMetadata,
+  ColumnType,
+  MetadataRegistry,
+  TableMetadata,
+  collectTables,
+} from './metadata'
+import { quote, quoteNames } from './util/code'
+
+export interface MigrationTableOperation {
+  readonly type: 'createTable' | 'dropTable'
+  readonly table: TableDefinition
+}
+
+export interface MigrationColumnOperation {
+  readonly type: 'addColumn' | 'dropColumn'
+  readonly table: string
+  readonly column: ColumnDefinition
+}
+
+export interface MigrationAlterOperation {
+  readonly type: 'alterColumn'
+  readonly table: string
+  readonly column: ColumnDefinition
+  /** Column in database before being altered, used to revert the operation */
+  readonly previous: ColumnDefinition
+}
+
+export interface MigrationForeignKeyOperation {
+  readonly type: 'addForeignKey' | 'dropForeignKey'
+  readonly table: string
+  readonly foreignKey: ForeignKeyDefinition
+}
+
+export type MigrationOperation =
+  | MigrationTableOperation
+  | MigrationColumnOperation
+  | MigrationAlterOperation
+  | MigrationForeignKeyOperation
+
+/** Generate migration file from difference between metadata and database */
+export class MigrationGenerator {
+  public constructor(
+    private readonly connection: Knex,
+    private readonly metadata: MetadataRegistry,
+  ) {}
+
+  /**
+   * Compare registered tables with current database
+   *
+   * @returns Operations required to update database
+   */
+  public async diff(): Promise<MigrationOperation[]> {
+    return diffTables(
+      defineTables(this.metadata.tables()),
+      await introspect(this.connection),
+    )
+  }
+
+  /**
+   * Write migration file into given directory
+   *
+   * @param directory Directory where migration file is written
+   * @param name Migration name, prefixed with timestamp as file name
+   * @returns Path of the migration file, or undefined when there is no change
+   */
+  public async generate(
+    directory: string,
+    name: string,
+  ): Promise<string | undefined> {
+    const operations = await this.diff()
+    if (operations.length === 0) {
+      return undefined
+    }
+
+    const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14)
+    const path = join(directory, `${timestamp}_${name}.ts`)
+    await mkdir(directory, { recursive: true })
+    await writeFile(path, renderMigration(operations))
+    return path
+  }
+}
+
+/** Bookkeeping table recording applied migrations */
+export class MigrationHistory {
+  public constructor(
+    private readonly connection: Knex,
+    public readonly tableName: string = 'perdata_migration',
+  ) {}
+
+  /** Create bookkeeping table if not exists yet */
+  public async ensure(): Promise<void> {
+    if (await this.connection.schema.hasTable(this.tableName)) {
+      return
+    }
+    await this.connection.schema.createTable(this.tableName, (table) => {
+      table.increments('id')
+      table.string('name').notNullable().unique()
+      table
+        .timestamp('applied_at')
+        .notNullable()
+        .defaultTo(this.connection.fn.now())
+    })
+  }
+
+  /**
+   * Read applied migrations
+   *
+   * @returns Migration names in order of application
+   */
+  public async applied(): Promise<string[]> {
+    const rows: { name: string }[] = await this.connection
+      .from(this.tableName)
+      .select('name')
+      .orderBy('id')
+    return rows.map((row) => row.name)
+  }
+
+  public async record(name: string): Promise<void> {
+    await this.connection.from(this.tableName).insert({ name })
+  }
+
+  public async remove(name: string): Promise<void> {
+    await this.connection.from(this.tableName).delete().where({ name })
+  }
+}
+
+/**
+ * Create {@link TableDefinition} of given tables, all of its related tables and
+ * junction tables of many-to-many relations
+ *
+ * @param tables {@link TableMetadata} to be defined
+ * @returns Definition of the tables
+ */
+export function defineTables(
+  tables: Iterable<TableMetadata>,
+): TableDefinition[] {
+  const collection = collectTables(tables)
+
+  const columns: Map<string, Map<string, ColumnDefinition>> = new Map()
+  for (const [name, instances] of collection) {
+    const tableColumns: Map<string, ColumnDefinition> = new Map()
+    instances
+      .flatMap((table) => table.baseColumns)
+      .forEach((column) =>
+        tableColumns.set(column.columnName, defineColumn(column)),
+      )
+    columns.set(name, tableColumns)
+  }
+
+  const foreignKeys: Map<string, ForeignKeyDefinition[]> = new Map()
+  for (const instances of collection.values()) {
+    instances
+      .flatMap((table) => table.relationColumns)
+      .filter((relation) => relation.through === undefined)
+      .forEach((relation) => {
+        const [owners, targets] =
+          relation.owner === 'source'
+            ? [relation.sourceColumns, relation.foreignColumns]
+            : [relation.foreignColumns, relation.sourceColumns]
+        const ownerTable = owners[0]!.table.name
+        const targetTable = targets[0]!.table.name
+        const ownerNames = owners.map((column) => column.columnName)
+        const ownerKeys = foreignKeys.get(ownerTable) ?? []
+        if (ownerKeys.some((key) => isSameNames(key.columns, ownerNames))) {
+          return
+        }
+        foreignKeys.set(
+          ownerTable,
+          ownerKeys.concat({
+            columns: ownerNames,
+            foreignTable: targetTable,
+            foreignColumns: targets.map((column) => column.columnName),
+          }),
+        )
+
+        // join column must have the same type as referenced column
+        owners.forEach((owner, index) => {
+          const target = targets[index]!
+          const ownerColumn = columns.get(ownerTable)?.get(owner.columnName)
+          const targetColumn = columns.get(targetTable)?.get(target.columnName)
+          if (ownerColumn !== undefined && targetColumn !== undefined) {
+            columns.get(ownerTable)?.set(owner.columnName, {
+              ...ownerColumn,
+              type: targetColumn.type,
+            })
+          }
+        })
+      })
+  }
+
+  const junctions: Map<string, TableDefinition> = new Map()
+  for (const instances of collection.values()) {
+    instances
+      .flatMap((table) => table.relationColumns)
+      .forEach((relation) => {
+        const through = relation.through
+        if (through === undefined || collection.has(through.name)) {
+          return
+        }
+        const references = [
+          [through.sourceColumn, relation.sourceColumns[0]!],
+          [through.foreignColumn, relation.foreignColumns[0]!],
+        ] as const
+        junctions.set(through.name, {
+          name: through.name,
+          columns: references.map(([name, target]) => ({
+            name,
+            type:
+              columns.get(target.table.name)?.get(target.columnName)?.type ??
+              defineColumn(target).type,
+            nullable: false,
+            primary: true,
+            generated: false,
+          })),
+          foreignKeys: references.map(([column, target]) => ({
+            columns: [column],
+            foreignTable: target.table.name,
+            foreignColumns: [target.columnName],
+          })),
+        })
+      })
+  }
+
+  return [
+    ...[...collection.keys()].map((name) => ({
+      name,
+      columns: [...(columns.get(name)?.values() ?? [])],
+      foreignKeys: foreignKeys.get(name) ?? [],
+    })),
+    ...junctions.values(),
+  ]
+}
+
+const columnTypes: Record<ColumnType, string> = {
+  string: 'text',
+  number: 'double precision',
+  boolean: 'boolean',
+  bigint: 'bigint',
+  date: 'timestamp with time zone',
+  object: 'jsonb',
+  unknown: 'text',
+}
+
+function defineColumn(column: ColumnMetadata): ColumnDefinition {
+  const type =
+    column.id && column.valueType === 'number'
+      ? 'integer'
+      : columnTypes[column.valueType]
+  return {
+    name: column.columnName,
+    type: column.collection ? `${type}[]` : type,
+    nullable: column.nullable,
+    primary: column.id,
+    generated: column.id && column.generated,
+  }
+}
+
+/**
+ * Compare expected tables with tables in database. Tables that only exists in
+ * database are left untouched
+ *
+ * @param expected Expected {@link TableDefinition}
+ * @param actual {@link TableDefinition} read from database
+ * @returns Operations to update database into expected tables
+ */
+export function diffTables(
+  expected: TableDefinition[],
+  actual: TableDefinition[],
+): MigrationOperation[] {
+  const creates: MigrationOperation[] = []
+  const additions: MigrationOperation[] = []
+  const foreignKeyRemovals: MigrationOperation[] = []
+  const alters: MigrationOperation[] = []
+  const removals: MigrationOperation[] = []
+  const foreignKeys: MigrationOperation[] = []
+
+  for (const table of expected) {
+    const actualTable = actual.find((item) => item.name === table.name)
+    if (actualTable === undefined) {
+      creates.push({ type: 'createTable', table })
+    } else {
+      for (const column of table.columns) {
+        const actualColumn = actualTable.columns.find(
+          (item) => item.name === column.name,
+        )
+        if (actualColumn === undefined) {
+          additions.push({ type: 'addColumn', table: table.name, column })
+        } else if (
+          !isSameType(actualColumn.type, column.type) ||
+          (!column.primary && actualColumn.nullable !== column.nullable)
+        ) {
+          alters.push({
+            type: 'alterColumn',
+            table: table.name,
+            column,
+            previous: actualColumn,
+          })
+        }
+      }
+      const droppedColumns = actualTable.columns.filter(
+        (column) => !table.columns.some((item) => item.name === column.name),
+      )
+      // foreign key must be dropped before any of its column
+      actualTable.foreignKeys
+        .filter((foreignKey) =>
+          foreignKey.columns.some((name) =>
+            droppedColumns.some((column) => column.name === name),
+          ),
+        )
+        .forEach((foreignKey) =>
+          foreignKeyRemovals.push({
+            type: 'dropForeignKey',
+            table: table.name,
+            foreignKey,
+          }),
+        )
+      droppedColumns.forEach((column) =>
+        removals.push({ type: 'dropColumn', table: table.name, column }),
+      )
+    }
+
+    table.foreignKeys
+      .filter(
+        (foreignKey) =>
+          !(actualTable?.foreignKeys ?? []).some(
+            (item) =>
+              isSameNames(item.columns, foreignKey.columns) &&
+              item.foreignTable === foreignKey.foreignTable &&
+              isSameNames(item.foreignColumns, foreignKey.foreignColumns),
+          ),
+      )
+      .forEach((foreignKey) =>
+        foreignKeys.push({
+          type: 'addForeignKey',
+          table: table.name,
+          foreignKey,
+        }),
+      )
+  }
+
+  return [
+    ...creates,
+    ...additions,
+    ...foreignKeyRemovals,
+    ...alters,
+    ...removals,
+    ...foreignKeys,
+  ]
+}
+
+/**
+ * Render migration file content with `up` function running given operations
+ * and `down` function reverting them
+ *
+ * @param operations Operations to be rendered
+ * @returns Source code of migration file
+ */
+export function renderMigration(operations: MigrationOperation[]): string {
+  const up = operations.map(renderOperation)
+  const down = operations.map(reverseOperation).reverse().map(renderOperation)
+  return [
+    "import { Knex } from 'knex'",
+    '',
+    'export async function up(knex: Knex): Promise<void> {',
+    ...up,
+    '}',
+    '',
+    'export async function down(knex: Knex): Promise<void> {',
+    ...down,
+    '}',
+    '',
+  ].join('\n')
+}
+
+function reverseOperation(operation: MigrationOperation): MigrationOperation {
+  switch (operation.type) {
+    case 'createTable':
+      return { ...operation, type: 'dropTable' }
+    case 'dropTable':
+      return { ...operation, type: 'createTable' }
+    case 'addColumn':
+      return { ...operation, type: 'dropColumn' }
+    case 'dropColumn':
+      return { ...operation, type: 'addColumn' }
+    case 'alterColumn':
+      return {
+        ...operation,
+        column: operation.previous,
+        previous: operation.column,
+      }
+    case 'addForeignKey':
+      return { ...operation, type: 'dropForeignKey' }
+    case 'dropForeignKey':
+      return { ...operation, type: 'addForeignKey' }
+  }
+}
+
+function renderOperation(operation: MigrationOperation): string {
+  switch (operation.type) {
+    case 'createTable':
+      return renderSchema(
+        'createTable',
+        operation.table.name,
+        renderColumns(operation.table.columns),
+      )
+    case 'dropTable':
+      return `  await knex.schema.dropTable(${quote(operation.table.name)})`
+    case 'addColumn':
+      return renderSchema('alterTable', operation.table, [
+        renderColumn(operation.column),
+      ])
+    case 'dropColumn':
+      return renderSchema('alterTable', operation.table, [
+        `table.dropColumn(${quote(operation.column.name)})`,
+      ])
+    case 'alterColumn':
+      return renderSchema('alterTable', operation.table, [
+        `table.specificType(${quote(operation.column.name)}, ${quote(operation.column.type)})` +
+          (operation.column.nullable && !operation.column.primary
+            ? '.nullable()'
+            : '.notNullable()') +
+          '.alter()',
+      ])
+    case 'addForeignKey':
+      return renderSchema('alterTable', operation.table, [
+        `table` +
+          `.foreign(${quoteNames(operation.foreignKey.columns)})` +
+          `.references(${quoteNames(operation.foreignKey.foreignColumns)})` +
+          `.inTable(${quote(operation.foreignKey.foreignTable)})`,
+      ])
+    case 'dropForeignKey':
+      return renderSchema('alterTable', operation.table, [
+        `table.dropForeign(${quoteNames(operation.foreignKey.columns)})`,
+      ])
+  }
+}
+
+function renderSchema(
+  method: 'createTable' | 'alterTable',
+  table: string,
+  statements: string[],
+): string {
+  return [
+    `  await knex.schema.${method}(${quote(table)}, (table) => {`,
+    ...statements.map((statement) => `    ${statement}`),
+    '  })',
+  ].join('\n')
+}
+
+function renderColumns(columns: ColumnDefinition[]): string[] {
+  const primaries = columns.filter((column) => column.primary)
+  if (primaries.length <= 1) {
+    return columns.map((column) => renderColumn(column))
+  }
+
+  // composite primary key is declared once for the table
+  return [
+    ...columns.map((column) => renderColumn(column, false)),
+    `table.primary(${quoteNames(primaries.map((column) => column.name))})`,
+  ]
+}
+
+function renderColumn(
+  column: ColumnDefinition,
+  primary: boolean = true,
+): string {
+  if (column.generated && column.type === 'integer') {
+    return `table.increments(${quote(column.name)})`
+  } else if (column.generated && column.type === 'bigint') {
+    return `table.bigIncrements(${quote(column.name)})`
+  }
+
+  let statement = `table.specificType(${quote(column.name)}, ${quote(column.type)})`
+  if (column.primary && primary) {
+    statement += '.primary()'
+  } else if (!column.nullable || column.primary) {
+    statement += '.notNullable()'
+  }
+  return statement
+}
+
+/** Type names read from database that are aliases of the declared names */
+const typeAliases: Record<string, string> = {
+  int2: 'smallint',
+  int4: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  bool: 'boolean',
+  varchar: 'character varying',
+  bpchar: 'character',
+  timestamp: 'timestamp without time zone',
+  timestamptz: 'timestamp with time zone',
+}
+
+function isSameType(type1: string, type2: string): boolean {
+  const normalize = (type: string): string =>
+    type.endsWith('[]')
+      ? `${normalize(type.slice(0, -2))}[]`
+      : (typeAliases[type] ?? type)
+  return normalize(type1) === normalize(type2)
+}
+
+function isSameNames(names1: string[], names2: string[]): boolean {
+  return (
+    names1.length === names2.length &&
+    names1.every((name, index) => name === names2[index])
+  )
+}
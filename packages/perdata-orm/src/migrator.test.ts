@@ -0,0 +1,100 @@
+import { Knex } from 'knex'
+import { Migration } from './migrator'
+import { DataSource } from './source'
+
+describe('Migrator', () => {
+  const db = new DataSource({ client: 'memory' })
+
+  const createMigration = (name: string, table: string): Migration => ({
+    name,
+    up: async (knex: Knex) => {
+      await knex.schema.createTable(table, (builder) =>
+        builder.increments('id'),
+      )
+    },
+    down: async (knex: Knex) => {
+      await knex.schema.dropTable(table)
+    },
+  })
+
+  const migrations = [
+    createMigration('002_second', 'migrator_second'),
+    createMigration('001_first', 'migrator_first'),
+    createMigration('003_third', 'migrator_third'),
+  ]
+  const migrator = db.migrator(migrations)
+
+  afterAll(() => db.close())
+
+  it('Should apply every pending migrations in order', async () => {
+    await expect(migrator.latest()).resolves.toStrictEqual([
+      '001_first',
+      '002_second',
+      '003_third',
+    ])
+    await expect(
+      db.connection().schema.hasTable('migrator_third'),
+    ).resolves.toBe(true)
+    await expect(migrator.latest()).resolves.toStrictEqual([])
+  })
+
+  it('Should read status of every migrations', async () => {
+    await expect(
+      db.migrator([...migrations, createMigration('004_fourth', 'x')]).status(),
+    ).resolves.toStrictEqual([
+      { name: '001_first', applied: true },
+      { name: '002_second', applied: true },
+      { name: '003_third', applied: true },
+      { name: '004_fourth', applied: false },
+    ])
+  })
+
+  it('Should revert last applied migrations', async () => {
+    await expect(migrator.down(2)).resolves.toStrictEqual([
+      '003_third',
+      '002_second',
+    ])
+    await expect(
+      db.connection().schema.hasTable('migrator_second'),
+    ).resolves.toBe(false)
+    await expect(
+      db.connection().schema.hasTable('migrator_first'),
+    ).resolves.toBe(true)
+  })
+
+  it('Should apply next pending migration', async () => {
+    await expect(migrator.up()).resolves.toStrictEqual(['002_second'])
+    await expect(migrator.status()).resolves.toStrictEqual([
+      { name: '001_first', applied: true },
+      { name: '002_second', applied: true },
+      { name: '003_third', applied: false },
+    ])
+  })
+
+  it('Should not record failed migration', async () => {
+    const failing = db.migrator([
+      ...migrations,
+      {
+        name: '004_failing',
+        up: () => Promise.reject(new Error('Failed')),
+        down: () => Promise.resolve(),
+      },
+    ])
+    await expect(failing.latest()).rejects.toThrow('Failed')
+    await expect(failing.status()).resolves.toContainEqual({
+      name: '004_failing',
+      applied: false,
+    })
+    await expect(failing.latest()).rejects.toThrow('Failed')
+  })
+
+  it('Should throw when migration is locked', async () => {
+    await db
+      .connection()
+      .from('perdata_migration_lock')
+      .update({ locked: true })
+    await expect(migrator.latest()).rejects.toThrow('locked')
+    await migrator.unlock()
+    await expect(migrator.latest()).resolves.toStrictEqual([])
+  })
+})
@@ -0,0 +1,246 @@
+import { Knex } from 'knex'
+import { readdir } from 'node:fs/promises'
+import { extname, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { MigrationHistory } from './migration'
+
+export interface Migration {
+  /** Migration name, migrations are run in order of its name */
+  readonly name: string
+  up(knex: Knex): Promise<void>
+  down(knex: Knex): Promise<void>
+}
+
+/** Module of migration file, exporting `up` and `down` functions */
+export type MigrationModule = Pick<Migration, 'up' | 'down'>
+
+export interface MigrationStatus {
+  readonly name: string
+  readonly applied: boolean
+}
+
+/**
+ * Run migrations in order, each migration is run inside its own transaction
+ * and recorded into bookkeeping table. Migration files are imported as is, so
+ * TypeScript files require a loader such as `tsx` registered in Node
+ */
+export class Migrator {
+  private readonly history: MigrationHistory
+
+  private readonly lock: MigrationLock
+
+  public constructor(
+    private readonly connection: Knex,
+    /** Directory containing migration files, or list of migrations */
+    private readonly source: string | Migration[],
+    tableName: string = 'perdata_migration',
+  ) {
+    this.history = new MigrationHistory(connection, tableName)
+    this.lock = new MigrationLock(connection, `${tableName}_lock`)
+  }
+
+  /**
+   * Read every migration and whether it has been applied
+   *
+   * @returns {@link MigrationStatus} in order of migration name
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    await this.history.ensure()
+    const applied = await this.history.applied()
+    const migrations = await this.migrations()
+    return migrations.map((migration) => ({
+      name: migration.name,
+      applied: applied.includes(migration.name),
+    }))
+  }
+
+  /**
+   * Apply every pending migrations
+   *
+   * @returns Names of applied migrations
+   */
+  public async latest(): Promise<string[]> {
+    return this.locked(() => this.apply((pending) => pending))
+  }
+
+  /**
+   * Apply next pending migration
+   *
+   * @returns Names of applied migrations
+   */
+  public async up(): Promise<string[]> {
+    return this.locked(() => this.apply((pending) => pending.slice(0, 1)))
+  }
+
+  /**
+   * Revert last applied migrations
+   *
+   * @param steps Number of migrations to be reverted
+   * @returns Names of reverted migrations
+   */
+  public async down(steps: number = 1): Promise<string[]> {
+    return this.locked(async () => {
+      const migrations = await this.migrations()
+      const applied = await this.history.applied()
+      const reverted = applied.toReversed().slice(0, steps)
+      for (const name of reverted) {
+        const migration = migrations.find((item) => item.name === name)
+        if (migration === undefined) {
+          throw new Error(`Cannot find applied migration "${name}"`)
+        }
+        await this.connection.transaction(async (trx) => {
+          await migration.down(trx)
+          await new MigrationHistory(trx, this.history.tableName).remove(name)
+        })
+      }
+      return reverted
+    })
+  }
+
+  /**
+   * Release migration lock left by a process that stopped without releasing
+   * it. Only use it when no other migration is running
+   */
+  public async unlock(): Promise<void> {
+    await this.lock.ensure()
+    await this.lock.release()
+  }
+
+  private async apply(
+    select: (pending: Migration[]) => Migration[],
+  ): Promise<string[]> {
+    const applied = await this.history.applied()
+    const migrations = await this.migrations()
+    const selected = select(
+      migrations.filter((migration) => !applied.includes(migration.name)),
+    )
+    for (const migration of selected) {
+      await this.connection.transaction(async (trx) => {
+        await migration.up(trx)
+        await new MigrationHistory(trx, this.history.tableName).record(
+          migration.name,
+        )
+      })
+    }
+    return selected.map((migration) => migration.name)
+  }
+
+  private async locked<T>(fn: () => Promise<T>): Promise<T> {
+    await this.history.ensure()
+    await this.lock.ensure()
+    await this.lock.acquire()
+    try {
+      return await fn()
+    } finally {
+      await this.lock.release()
+    }
+  }
+
+  private async migrations(): Promise<Migration[]> {
+    const migrations =
+      typeof this.source === 'string'
+        ? await readMigrations(this.source)
+        : this.source
+    return migrations.toSorted((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+/** Prevent migrations from being run concurrently by several processes */
+class MigrationLock {
+  public constructor(
+    private readonly connection: Knex,
+    private readonly tableName: string,
+  ) {}
+
+  public async ensure(): Promise<void> {
+    if (!(await this.connection.schema.hasTable(this.tableName))) {
+      await this.connection.schema.createTable(this.tableName, (table) => {
+        table.integer('id').primary()
+        table.boolean('locked').notNullable()
+      })
+    }
+    await this.connection
+      .from(this.tableName)
+      .insert({ id: 1, locked: false })
+      .onConflict('id')
+      .ignore()
+  }
+
+  public async acquire(): Promise<void> {
+    const count = await this.connection
+      .from(this.tableName)
+      .update({ locked: true })
+      .where({ id: 1, locked: false })
+    if (count === 0) {
+      throw new Error('Migration is locked, another migration may be running')
+    }
+  }
+
+  public async release(): Promise<void> {
+    await this.connection
+      .from(this.tableName)
+      .update({ locked: false })
+      .where({ id: 1 })
+  }
+}
+
+const scriptExtensions = ['.js', '.mjs', '.cjs']
+
+const typescriptExtensions = ['.ts', '.mts', '.cts']
+
+async function readMigrations(directory: string): Promise<Migration[]> {
+  const files = await readdir(directory)
+  return Promise.all(
+    files
+      .filter((file) =>
+        [...scriptExtensions, ...typescriptExtensions].includes(extname(file)),
+      )
+      .filter((file) => !file.endsWith('.d.ts'))
+      .map(async (file) => {
+        const module = await importMigration(directory, file)
+        if (!isMigrationModule(module)) {
+          throw new Error(
+            `Migration file "${file}" must export "up" and "down" functions`,
+          )
+        }
+        return {
+          name: file.slice(0, file.length - extname(file).length),
+          up: module.up,
+          down: module.down,
+        }
+      }),
+  )
+}
+
+async function importMigration(
+  directory: string,
+  file: string,
+): Promise<unknown> {
+  try {
+    return await import(pathToFileURL(resolve(directory, file)).href)
+  } catch (error) {
+    if (
+      typescriptExtensions.includes(extname(file)) &&
+      error instanceof Error &&
+      'code' in error &&
+      error.code === 'ERR_UNKNOWN_FILE_EXTENSION'
+    ) {
+      throw new Error(
+        `Migration file "${file}" is written in TypeScript, run with a loader such as tsx, e.g. NODE_OPTIONS="--import tsx" perdata migrate`,
+        { cause: error },
+      )
+    }
+    throw error
+  }
+}
+
+function isMigrationModule(module: unknown): module is MigrationModule {
+  return (
+    typeof module === 'object' &&
+    module !== null &&
+    'up' in module &&
+    typeof module.up === 'function' &&
+    'down' in module &&
+    typeof module.down === 'function'
+  )
+}
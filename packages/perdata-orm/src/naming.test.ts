@@ -0,0 +1,22 @@
+import { getNamingStrategy, identityNaming, snakeCaseNaming } from './naming'
+
+describe('NamingStrategy', () => {
+  it('Should keep property name as is', () => {
+    expect(identityNaming('createdAt')).toBe('createdAt')
+  })
+
+  it('Should convert property name into snake case', () => {
+    expect(snakeCaseNaming('createdAt')).toBe('created_at')
+    expect(snakeCaseNaming('userID')).toBe('user_id')
+    expect(snakeCaseNaming('HTTPStatus')).toBe('http_status')
+    expect(snakeCaseNaming('line2Total')).toBe('line2_total')
+    expect(snakeCaseNaming('already_snake')).toBe('already_snake')
+  })
+
+  it('Should get strategy of given option', () => {
+    const custom = (name: string) => name.toUpperCase()
+    expect(getNamingStrategy()).toBe(identityNaming)
+    expect(getNamingStrategy('snake_case')).toBe(snakeCaseNaming)
+    expect(getNamingStrategy(custom)).toBe(custom)
+  })
+})
@@ -0,0 +1,38 @@
+/**
+ * Convert schema property name into database column name
+ *
+ * @param name Property name
+ * @returns Column name
+ */
+export type NamingStrategy = (name: string) => string
+
+/** Use property name as column name */
+export const identityNaming: NamingStrategy = (name) => name
+
+/** Convert property name into snake case, e.g. `createdAt` into `created_at` */
+export const snakeCaseNaming: NamingStrategy = (name) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+
+export type NamingOption = 'identity' | 'snake_case' | NamingStrategy
+
+/**
+ * Get {@link NamingStrategy} of given option
+ *
+ * @param option Name of built-in strategy, or custom strategy function
+ * @returns {@link NamingStrategy} function
+ */
+export function getNamingStrategy(
+  option: NamingOption = 'identity',
+): NamingStrategy {
+  switch (option) {
+    case 'identity':
+      return identityNaming
+    case 'snake_case':
+      return snakeCaseNaming
+    default:
+      return option
+  }
+}
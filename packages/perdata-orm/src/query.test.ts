@@ -1,19 +1,12 @@
 import { Knex } from 'knex'
-import { AnyRecord, number, object, string } from 'pertype'
+import { AnyRecord, Schema, number, object, string } from 'pertype'
 import { eq, or } from './query'
 import { DataSource } from './source'
-import { getEnvironment } from './util/environment'
+import { getDataSourceConfig } from './util/environment'
 
 describe('Query', () => {
-  const { CLIENT, HOST, PORT, USER, PASSWORD, DATABASE } = getEnvironment()
-  const db = new DataSource({
-    client: CLIENT,
-    host: HOST,
-    port: PORT,
-    user: USER,
-    password: PASSWORD,
-    database: DATABASE,
-  })
+  const config = getDataSourceConfig()
+  const db = new DataSource(config)
 
   const base = object({
     id: number().optional().set('id', true).set('generated', true),
@@ -21,6 +14,13 @@ describe('Query', () => {
     value: string().optional(),
   })
 
+  /** Create tables of schema on memory client, others use existing tables */
+  async function prepare(schema: Schema) {
+    if (config.client === 'memory') {
+      await db.synchronize(schema)
+    }
+  }
+
   async function setup(
     connection: Knex,
     tableName: string,
@@ -37,12 +37,13 @@ describe('Query', () => {
   describe('Select', () => {
     const tableName = 'simple_select'
 
-    beforeAll(async () =>
-      setup(db.connection(), tableName, (number) => ({
+    beforeAll(async () => {
+      await prepare(base.set('table', tableName))
+      await setup(db.connection(), tableName, (number) => ({
         key: `key-${number}`,
         value: `value-${number}`,
-      })),
-    )
+      }))
+    })
 
     it('Should be able to select all from db table', async () => {
       const schema = base.set('table', tableName)
@@ -84,9 +85,10 @@ describe('Query', () => {
 
   it('Should be able to insert elements', async () => {
     const tableName = 'simple_insert'
+    const schema = base.set('table', tableName)
+    await prepare(schema)
     await db.connection().from(tableName).truncate()
 
-    const schema = base.set('table', tableName)
     await db.from(schema).insert({ id: undefined, key: 'key', value: 'value' })
 
     const result = await db.from(schema).find()
@@ -98,9 +100,10 @@ describe('Query', () => {
 
   it('Should be able to update elements', async () => {
     const tableName = 'simple_save'
+    const schema = base.set('table', tableName)
+    await prepare(schema)
     await db.connection().from(tableName).truncate()
 
-    const schema = base.set('table', tableName)
     await db.from(schema).insert({ id: undefined, key: 'key', value: 'value' })
 
     await db.from(schema).save({ id: 1, key: 'key-u', value: 'value-u' })
@@ -116,38 +119,38 @@ describe('Query', () => {
     describe('One-to-One (Owner: Source) Relationship', () => {
       it('Should be able to resolve relations on "find"', async () => {
         const foreignName = 'one_to_one_source_find_2'
+        const sourceName = 'one_to_one_source_find_1'
+        const foreignSchema = base.set('table', foreignName)
+        const schema = object({
+          ...base.props,
+          relation: foreignSchema,
+        }).set('table', sourceName)
+        await prepare(schema)
         await setup(db.connection(), foreignName, (number) => ({
           key: `key-${number}`,
           value: `value-${number}`,
         }))
-        const foreignSchema = base.set('table', foreignName)
-
-        const sourceName = 'one_to_one_source_find_1'
         await setup(db.connection(), sourceName, (number) => ({
           key: `key-${number}`,
           value: `value-${number}`,
           one_to_one_source_find_2_id: number + 1,
         }))
-        const schema = object({
-          ...base.props,
-          relation: foreignSchema,
-        }).set('table', sourceName)
 
         const result = await db.from(schema).find()
         expect(result).toHaveLength(10)
       })
 
-      it('Should be able to insert (and insert relation)', async () => {
+      it('Should be able to insert (and insert strong relation)', async () => {
         const foreignName = 'one_to_one_source_insert_insert_2'
-        await db.connection().from(foreignName).truncate()
-        const foreignSchema = base.set('table', foreignName)
-
         const sourceName = 'one_to_one_source_insert_insert_1'
-        await db.connection().from(sourceName).truncate()
+        const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
-          relation: foreignSchema,
+          relation: foreignSchema.set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(foreignName).truncate()
+        await db.connection().from(sourceName).truncate()
 
         const inserted = await db.from(schema).insert({
           key: 'key',
@@ -178,20 +181,47 @@ describe('Query', () => {
         expect(result[0]!.relation).toHaveProperty('value', 'value')
       })
 
-      it('Should be able to insert (and save relation)', async () => {
-        const foreignName = 'one_to_one_source_insert_save_2'
-        await setup(db.connection(), foreignName, (number) => ({
-          key: `key-${number}`,
-          value: `value-${number}`,
-        }))
+      it('Should not insert relation by default (weak) reference', async () => {
+        const foreignName = 'one_to_one_source_insert_weak_2'
+        const sourceName = 'one_to_one_source_insert_weak_1'
         const foreignSchema = base.set('table', foreignName)
+        const schema = object({
+          ...base.props,
+          relation: foreignSchema,
+        }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(foreignName).truncate()
+        await db.connection().from(sourceName).truncate()
 
+        await expect(
+          db.from(schema).insert({
+            key: 'key',
+            value: 'value',
+            relation: {
+              key: 'key',
+              value: 'value',
+            },
+          }),
+        ).rejects.toThrow('is weak, it can only reference existing entries')
+
+        await expect(db.from(foreignSchema).find()).resolves.toHaveLength(0)
+        await expect(db.from(schema).find()).resolves.toHaveLength(0)
+      })
+
+      it('Should be able to insert (and save relation)', async () => {
+        const foreignName = 'one_to_one_source_insert_save_2'
         const sourceName = 'one_to_one_source_insert_save_1'
-        await db.connection().from(sourceName).truncate()
+        const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
           relation: foreignSchema.set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await setup(db.connection(), foreignName, (number) => ({
+          key: `key-${number}`,
+          value: `value-${number}`,
+        }))
+        await db.connection().from(sourceName).truncate()
 
         const inserted = await db.from(schema).insert({
           key: 'key',
@@ -225,18 +255,18 @@ describe('Query', () => {
 
       it('Should be able to save (and insert relation)', async () => {
         const foreignName = 'one_to_one_source_save_insert_2'
-        await db.connection().from(foreignName).truncate()
-        const foreignSchema = base.set('table', foreignName)
-
         const sourceName = 'one_to_one_source_save_insert_1'
-        await setup(db.connection(), sourceName, (number) => ({
-          key: `key-${number}`,
-          value: `value-${number}`,
-        }))
+        const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
           relation: foreignSchema.optional().set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(foreignName).truncate()
+        await setup(db.connection(), sourceName, (number) => ({
+          key: `key-${number}`,
+          value: `value-${number}`,
+        }))
 
         const saved = await db.from(schema).save({
           id: 1,
@@ -272,40 +302,40 @@ describe('Query', () => {
     describe('One-to-One (Owner: Foreign) Relationship', () => {
       it('Should be able to resolve relations on "find"', async () => {
         const sourceName = 'one_to_one_foreign_find_1'
+        const foreignName = 'one_to_one_foreign_find_2'
+        const foreignSchema = base.set('table', foreignName)
+        const schema = object({
+          ...base.props,
+          relation: foreignSchema.set('owner', 'foreign'),
+        }).set('table', sourceName)
+        await prepare(schema)
         await setup(db.connection(), sourceName, (number) => ({
           key: `key-${number}`,
           value: `value-${number}`,
         }))
-
-        const foreignName = 'one_to_one_foreign_find_2'
         await setup(db.connection(), foreignName, (number) => ({
           key: `key-${number}`,
           value: `value-${number}`,
           one_to_one_foreign_find_1_id: number + 1,
         }))
 
-        const foreignSchema = base.set('table', foreignName)
-        const schema = object({
-          ...base.props,
-          relation: foreignSchema.set('owner', 'foreign'),
-        }).set('table', sourceName)
-
         const result = await db.from(schema).find()
         expect(result).toHaveLength(10)
       })
 
-      it('Should be able to insert (and insert relation)', async () => {
+      it('Should be able to insert (and insert strong relation)', async () => {
         const sourceName = 'one_to_one_foreign_insert_insert_1'
-        await db.connection().from(sourceName).truncate()
-
         const foreignName = 'one_to_one_foreign_insert_insert_2'
-        await db.connection().from(foreignName).truncate()
-
         const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
-          relation: foreignSchema.set('owner', 'foreign'),
+          relation: foreignSchema
+            .set('owner', 'foreign')
+            .set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(sourceName).truncate()
+        await db.connection().from(foreignName).truncate()
 
         const inserted = await db.from(schema).insert({
           key: 'key',
@@ -338,14 +368,7 @@ describe('Query', () => {
 
       it('Should be able to insert (and save relation)', async () => {
         const sourceName = 'one_to_one_foreign_insert_save_1'
-        await db.connection().from(sourceName).truncate()
-
         const foreignName = 'one_to_one_foreign_insert_save_2'
-        await setup(db.connection(), foreignName, (number) => ({
-          key: `key-${number}`,
-          value: `value-${number}`,
-        }))
-
         const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
@@ -353,6 +376,12 @@ describe('Query', () => {
             .set('owner', 'foreign')
             .set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(sourceName).truncate()
+        await setup(db.connection(), foreignName, (number) => ({
+          key: `key-${number}`,
+          value: `value-${number}`,
+        }))
 
         const inserted = await db.from(schema).insert({
           key: 'key',
@@ -386,14 +415,7 @@ describe('Query', () => {
 
       it('Should be able to save (and insert relation)', async () => {
         const sourceName = 'one_to_one_foreign_save_insert_1'
-        await setup(db.connection(), sourceName, (number) => ({
-          key: `key-${number}`,
-          value: `value-${number}`,
-        }))
-
         const foreignName = 'one_to_one_foreign_save_insert_2'
-        await db.connection().from(foreignName).truncate()
-
         const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
@@ -402,6 +424,12 @@ describe('Query', () => {
             .optional()
             .set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await setup(db.connection(), sourceName, (number) => ({
+          key: `key-${number}`,
+          value: `value-${number}`,
+        }))
+        await db.connection().from(foreignName).truncate()
 
         const saved = await db.from(schema).save({
           id: 1,
@@ -437,40 +465,38 @@ describe('Query', () => {
     describe('One-to-Many (Owner: Foreign) Relationship', () => {
       it('Should be able to resolve relations on "find"', async () => {
         const sourceName = 'one_to_many_find_1'
+        const foreignName = 'one_to_many_find_2'
+        const foreignSchema = base.set('table', foreignName)
+        const schema = object({
+          ...base.props,
+          relation: foreignSchema.array(),
+        }).set('table', sourceName)
+        await prepare(schema)
         await setup(db.connection(), sourceName, (number) => ({
           key: `key-${number}`,
           value: `value-${number}`,
         }))
-
-        const foreignName = 'one_to_many_find_2'
         await setup(db.connection(), foreignName, (number) => ({
           key: `key-${number}`,
           value: `value-${number}`,
           one_to_many_find_1_id: 1,
         }))
 
-        const foreignSchema = base.set('table', foreignName)
-        const schema = object({
-          ...base.props,
-          relation: foreignSchema.array(),
-        }).set('table', sourceName)
-
         const result = await db.from(schema).find()
         expect(result).toHaveLength(10)
       })
 
-      it('Should be able to insert (and insert relation)', async () => {
+      it('Should be able to insert (and insert strong relation)', async () => {
         const sourceName = 'one_to_many_insert_insert_1'
-        await db.connection().from(sourceName).truncate()
-
         const foreignName = 'one_to_many_insert_insert_2'
-        await db.connection().from(foreignName).truncate()
-
         const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
-          relation: foreignSchema.array(),
+          relation: foreignSchema.array().set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(sourceName).truncate()
+        await db.connection().from(foreignName).truncate()
 
         const inserted = await db.from(schema).insert({
           key: 'key',
@@ -507,19 +533,18 @@ describe('Query', () => {
 
       it('Should be able to insert (and save relation)', async () => {
         const sourceName = 'one_to_many_insert_save_1'
-        await db.connection().from(sourceName).truncate()
-
         const foreignName = 'one_to_many_insert_save_2'
-        await setup(db.connection(), foreignName, (number) => ({
-          key: `key-${number}`,
-          value: `value-${number}`,
-        }))
-
         const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
           relation: foreignSchema.array().set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await db.connection().from(sourceName).truncate()
+        await setup(db.connection(), foreignName, (number) => ({
+          key: `key-${number}`,
+          value: `value-${number}`,
+        }))
 
         const inserted = await db.from(schema).insert({
           key: 'key',
@@ -557,19 +582,18 @@ describe('Query', () => {
 
       it('Should be able to save (and insert relation)', async () => {
         const sourceName = 'one_to_many_save_insert_1'
-        await setup(db.connection(), sourceName, (number) => ({
-          key: `key-${number}`,
-          value: `value-${number}`,
-        }))
-
         const foreignName = 'one_to_many_save_insert_2'
-        await db.connection().from(foreignName).truncate()
-
         const foreignSchema = base.set('table', foreignName)
         const schema = object({
           ...base.props,
           relation: foreignSchema.array().set('reference', 'strong'),
         }).set('table', sourceName)
+        await prepare(schema)
+        await setup(db.connection(), sourceName, (number) => ({
+          key: `key-${number}`,
+          value: `value-${number}`,
+        }))
+        await db.connection().from(foreignName).truncate()
 
         const saved = await db.from(schema).save({
           id: 1,
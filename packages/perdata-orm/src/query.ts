@@ -1,19 +1,44 @@
 import { Knex } from 'knex'
 import {
   AnyRecord,
+  Key,
   ObjectSchema,
   OptionalOf,
   Schema,
   TypeOf,
   string,
 } from 'pertype'
-import { Entry, EntryRegistry } from './entry'
-import { MetadataRegistry, TableMetadata } from './metadata'
-import { createRaw } from './util/raw'
+import { getDialect } from './dialect'
+import { EntityNotFoundError } from './error'
+import {
+  Entry,
+  EntryConflict,
+  EntryPropertyMultiRelation,
+  EntryRegistry,
+  createKey,
+} from './entry'
+import {
+  ColumnMetadata,
+  JunctionMetadata,
+  MetadataRegistry,
+  RelationColumnMetadata,
+  TableMetadata,
+} from './metadata'
+import {
+  RawScalar,
+  RawSingleObject,
+  RawSingleValue,
+  createColumnValue,
+  createRaw,
+  createRawValue,
+  getColumnValue,
+  isRawEqual,
+} from './util/raw'
 
 export class Query {
   public constructor(
     protected readonly query: Knex.QueryBuilder,
+    protected readonly replica: Knex.QueryBuilder,
     protected readonly metadata: MetadataRegistry,
     protected readonly entries: EntryRegistry,
   ) {}
@@ -21,30 +46,41 @@ export class Query {
   public from<P extends AnyRecord<Schema>>(
     schema: ObjectSchema<P>,
   ): QueryCollection<P> {
-    return new QueryCollection(this.query, this.metadata, this.entries, schema)
+    return new QueryCollection(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      schema,
+    )
   }
 }
 
 export class QueryCollection<P extends AnyRecord<Schema>> extends Query {
   public constructor(
     query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
     metadata: MetadataRegistry,
     entries: EntryRegistry,
     protected readonly schema: ObjectSchema<P>,
   ) {
-    super(query, metadata, entries)
+    super(query, replica, metadata, entries)
   }
 
-  public find<K extends keyof P>(
-    condition?:
-      | QueryFilter<P, K>
-      | QueryFilterMultiple<P, K>
-      | QueryFilterGroup<P>,
+  public find<K extends QueryPath<P>>(
+    condition?: QueryCondition<P, K>,
   ): QueryFind<P> {
     return condition === undefined
-      ? new QueryFind(this.query, this.metadata, this.entries, this.schema)
+      ? new QueryFind(
+          this.query,
+          this.replica,
+          this.metadata,
+          this.entries,
+          this.schema,
+        )
       : new QueryFind(
           this.query,
+          this.replica,
           this.metadata,
           this.entries,
           this.schema,
@@ -52,9 +88,81 @@ export class QueryCollection<P extends AnyRecord<Schema>> extends Query {
         )
   }
 
+  /**
+   * Find entity by its id. Entity already read by this query, e.g. within the
+   * same transaction, is returned without querying the database
+   *
+   * @param id Id value, or object of every id value for composite id. Id
+   *   property is `id` unless given as type argument, e.g.
+   *   `findById<'owner' | 'name'>({ owner, name })`
+   * @returns Entity if found, undefined otherwise
+   */
+  public async findById<K extends keyof P = 'id' & keyof P>(
+    id: QueryId<P, NoInfer<K>>,
+  ): Promise<OptionalOf<TypeOf<P>> | undefined> {
+    const table = this.metadata.get(this.schema)
+    const ids = readIds(table, id)
+    const entry = this.entries.findByKey(
+      table,
+      createKey(ids.map(([, value]) => value)),
+    )
+    if (entry?.initialized && !entry.remove) {
+      return this.schema.decode(entry.value)
+    }
+    const [found] = await this.from(table.schema)
+      .find(and(...ids.map(([key, value]) => eq(key, value))))
+      .limit(1)
+      .execute()
+    return found !== undefined ? this.schema.decode(found.value) : undefined
+  }
+
+  /** Find the first entity matching condition, undefined if none match */
+  public async findOne<K extends QueryPath<P>>(
+    condition?: QueryCondition<P, K>,
+  ): Promise<OptionalOf<TypeOf<P>> | undefined> {
+    const [result] = await this.find(condition).limit(1)
+    return result
+  }
+
+  /**
+   * Get entity by its id, same as {@link findById} but throw
+   * {@link EntityNotFoundError} when not found
+   */
+  public async getById<K extends keyof P = 'id' & keyof P>(
+    id: QueryId<P, NoInfer<K>>,
+  ): Promise<OptionalOf<TypeOf<P>>> {
+    const result = await this.findById<K>(id)
+    if (result === undefined) {
+      const table = this.metadata.get(this.schema)
+      throw new EntityNotFoundError(
+        table.name,
+        and(...readIds(table, id).map(([key, value]) => eq(key, value))),
+      )
+    }
+    return result
+  }
+
+  /**
+   * Get the first entity matching condition, same as {@link findOne} but
+   * throw {@link EntityNotFoundError} when not found
+   */
+  public async getOne<K extends QueryPath<P>>(
+    condition?: QueryCondition<P, K>,
+  ): Promise<OptionalOf<TypeOf<P>>> {
+    const result = await this.findOne(condition)
+    if (result === undefined) {
+      throw new EntityNotFoundError(
+        this.metadata.get(this.schema).name,
+        condition !== undefined ? and(condition) : and<P>(),
+      )
+    }
+    return result
+  }
+
   public insert(value: OptionalOf<TypeOf<P>>): QueryInsert<P> {
     return new QueryInsert(
       this.query,
+      this.replica,
       this.metadata,
       this.entries,
       this.schema,
@@ -62,15 +170,73 @@ export class QueryCollection<P extends AnyRecord<Schema>> extends Query {
     )
   }
 
+  /** Insert several entities at once using multi-row inserts */
+  public insertMany(values: OptionalOf<TypeOf<P>>[]): QueryInsertMany<P> {
+    return new QueryInsertMany(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      values,
+    )
+  }
+
   public save(value: OptionalOf<TypeOf<P>>): QuerySave<P> {
     return new QuerySave(
       this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      value,
+    )
+  }
+
+  /**
+   * Insert entity, or update the existing row conflicting on given unique
+   * columns. Related entities are upserted by its id
+   */
+  public upsert(
+    value: OptionalOf<TypeOf<P>>,
+    options: QueryUpsertOptions<P>,
+  ): QueryUpsert<P> {
+    return new QueryUpsert(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      value,
+      options,
+    )
+  }
+
+  /** Remove a single entity by its id, resolved to the removed rows */
+  public remove(value: OptionalOf<TypeOf<P>>): QueryRemove<P> {
+    return new QueryRemove(
+      this.query,
+      this.replica,
       this.metadata,
       this.entries,
       this.schema,
       value,
     )
   }
+
+  /** Remove every entity matching condition, resolved to the removed rows */
+  public delete<K extends QueryPath<P>>(
+    condition: QueryCondition<P, K>,
+  ): QueryDelete<P> {
+    return new QueryDelete(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      and(condition),
+    )
+  }
 }
 
 export abstract class QueryExecutable<P extends AnyRecord<Schema>>
@@ -90,6 +256,7 @@ export abstract class QueryExecutable<P extends AnyRecord<Schema>>
 export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
   public constructor(
     query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
     metadata: MetadataRegistry,
     entries: EntryRegistry,
     schema: ObjectSchema<P>,
@@ -97,83 +264,172 @@ export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
     private readonly limitCount?: number,
     private readonly offsetCount?: number,
     private readonly orderOptions?: QueryOrder<P>[] | undefined,
+    private readonly primary: boolean = false,
   ) {
-    super(query, metadata, entries, schema)
+    super(query, replica, metadata, entries, schema)
   }
 
   public async execute(): Promise<Entry[]> {
     const table = this.metadata.get(this.schema)
-    let query = this.query
-      .clone()
-      .from(table.name)
-      .select(...table.baseColumns.map((column) => column.name))
+    const connection = this.primary ? this.query : this.replica
+    const query = buildFind(
+      connection,
+      table,
+      table.baseColumns.map((column) => column.columnName),
+      this.condition,
+      this.limitCount,
+      this.offsetCount,
+      this.orderOptions,
+    )
+    return this.fetch(connection, table, query)
+  }
 
-    if (this.condition !== undefined) {
-      query = buildFilter(query, this.condition)
-    }
+  public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
+    const entries = await this.execute()
+    return this.schema.array().decode(entries.map((entry) => entry.value))
+  }
 
-    if (this.limitCount !== undefined) {
-      query = query.limit(this.limitCount)
+  /**
+   * Read rows matching this query condition in batches, so memory stays
+   * bounded. Batches are read using keyset pagination instead of holding a
+   * database cursor, since relations of each batch are queried while reading
+   * and would wait forever for a connection held by the cursor on a single
+   * connection pool or transaction. Limit stops reading once reached, while
+   * offset is rejected since it cannot be combined with keyset pagination
+   *
+   * @param options Number of rows read by each batch
+   */
+  public async *stream(
+    options: QueryStreamOptions = {},
+  ): AsyncIterable<OptionalOf<TypeOf<P>>> {
+    if (this.offsetCount !== undefined) {
+      throw new Error('Offset is not supported by stream, filter rows instead')
     }
+    const batchSize = options.batchSize ?? 100
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Batch size must be a positive integer, got ${batchSize}`)
+    }
+    let remaining = this.limitCount ?? Infinity
+    let after: string | undefined = undefined
+    while (remaining > 0) {
+      const existing = new Set(findAllEntries(this.entries))
+      const page = await this.paginate({
+        first: Math.min(batchSize, remaining),
+        after,
+      })
+      // entries read by this batch are no longer needed once decoded
+      this.entries.release(
+        findAllEntries(this.entries).filter((entry) => !existing.has(entry)),
+      )
+      yield* page.items
+      remaining -= page.items.length
+      if (!page.pageInfo.hasNextPage) {
+        break
+      }
+      after = page.pageInfo.endCursor
+    }
+  }
 
-    if (this.offsetCount !== undefined) {
-      query = query.offset(this.offsetCount)
+  /**
+   * Read rows of given page number along with number of rows matching this
+   * query condition, both are queried in parallel
+   *
+   * @param page Page number, counted from 1
+   * @param pageSize Number of rows of each page
+   */
+  public async page(
+    page: number,
+    pageSize: number,
+  ): Promise<QueryOffsetPage<OptionalOf<TypeOf<P>>>> {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error(`Page number must be a positive integer, got ${page}`)
+    } else if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Page size must be a positive integer, got ${pageSize}`)
     }
 
-    if (this.orderOptions !== undefined) {
-      query = this.orderOptions.reduce(
-        (query, opts) => query.orderBy(string().decode(opts.key), opts.order),
-        query,
-      )
+    const [items, total] = await Promise.all([
+      this.limit(pageSize)
+        .offset((page - 1) * pageSize)
+        .run(),
+      this.count(),
+    ])
+    return {
+      items,
+      total,
+      page,
+      pageSize,
+      pageCount: Math.ceil(total / pageSize),
     }
+  }
 
-    const result = await query
-    const decoded = table.baseSchema.array().decode(result)
-    const encoded = table.baseSchema.array().encode(decoded)
-    const entries = encoded
-      .map((item) => createRaw(table, item))
-      .map((raw) => this.entries.instantiate(table, raw))
-      .filter((entry) => entry !== undefined)
-    entries.forEach((entry) => {
-      entry.dirty = false
-      entry.initialized = true
-    })
+  /**
+   * Read a page of rows after or before given cursors using keyset
+   * pagination. Rows are ordered by this query order followed by its id, so
+   * pages do not shift when rows are inserted
+   *
+   * @param options Page size and cursors, page is read backward when `last`
+   *   is set
+   * @returns Page rows and cursors of its first and last row
+   */
+  public async paginate(
+    options: QueryPageOptions,
+  ): Promise<QueryPage<OptionalOf<TypeOf<P>>>> {
+    const table = this.metadata.get(this.schema)
+    const connection = this.primary ? this.query : this.replica
+    const orders = getPageOrders(table, this.orderOptions)
+    const backward = options.last !== undefined
+    const size = backward ? options.last : options.first
 
-    // resolve relations
-    await Promise.all(
-      table.relationColumns.map(async (column) => {
-        const lookups = entries
-          .map((entry) => entry.property(column.sourceColumn)?.value)
-          .filter((value) => value !== undefined)
-        const foreignEntries = await this.from(column.foreignTable.schema)
-          .find(includes(column.foreignColumn.name, lookups))
-          .execute()
-        entries.forEach((entry) => {
-          const matchedValues = foreignEntries
-            .filter(
-              (foreignEntry) =>
-                foreignEntry.property(column.foreignColumn)?.value ===
-                entry.property(column.sourceColumn)?.value,
-            )
-            .map((entry) => entry.value)
-          entry.property(column)!.value = column.collection
-            ? matchedValues
-            : matchedValues[0]
-        })
-      }),
+    // read one more row to check if there is another page
+    let query = buildFind(
+      connection,
+      table,
+      table.baseColumns.map((column) => column.columnName),
+      this.condition,
+      size !== undefined ? size + 1 : undefined,
+      undefined,
+      undefined,
     )
+    if (options.after !== undefined) {
+      query = buildCursor(query, table, orders, options.after, 'after')
+    }
+    if (options.before !== undefined) {
+      query = buildCursor(query, table, orders, options.before, 'before')
+    }
+    query = orders.reduce((query, [column, order]) => {
+      const direction = backward ? (order === 'asc' ? 'desc' : 'asc') : order
+      if (column.nullable) {
+        // databases disagree on where NULL is sorted, order it first
+        query = query.orderBy(
+          connection.client.raw('?? is not null', [column.columnName]),
+          direction,
+        )
+      }
+      return query.orderBy(column.columnName, direction)
+    }, query)
 
-    return entries
-  }
-
-  public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
-    const entries = await this.execute()
-    return this.schema.array().decode(entries.map((entry) => entry.value))
+    const entries = await this.fetch(connection, table, query)
+    const hasMore = size !== undefined && entries.length > size
+    const page = hasMore ? entries.slice(0, size) : entries
+    if (backward) {
+      page.reverse()
+    }
+    const cursors = page.map((entry) => encodeCursor(orders, entry))
+    return {
+      items: this.schema.array().decode(page.map((entry) => entry.value)),
+      pageInfo: {
+        startCursor: cursors[0],
+        endCursor: cursors[cursors.length - 1],
+        hasNextPage: backward ? options.before !== undefined : hasMore,
+        hasPreviousPage: backward ? hasMore : options.after !== undefined,
+      },
+    }
   }
 
   public limit(count: number): QueryFind<P> {
     return new QueryFind(
       this.query,
+      this.replica,
       this.metadata,
       this.entries,
       this.schema,
@@ -181,12 +437,14 @@ export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
       count,
       this.offsetCount,
       this.orderOptions,
+      this.primary,
     )
   }
 
   public offset(count: number): QueryFind<P> {
     return new QueryFind(
       this.query,
+      this.replica,
       this.metadata,
       this.entries,
       this.schema,
@@ -194,14 +452,16 @@ export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
       this.limitCount,
       count,
       this.orderOptions,
+      this.primary,
     )
   }
 
-  public filter<K extends keyof P>(
-    condition: QueryFilter<P, K> | QueryFilterGroup<P>,
+  public filter<K extends QueryPath<P>>(
+    condition: QueryCondition<P, K>,
   ): QueryFind<P> {
     return new QueryFind(
       this.query,
+      this.replica,
       this.metadata,
       this.entries,
       this.schema,
@@ -209,6 +469,7 @@ export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
       this.limitCount,
       this.offsetCount,
       this.orderOptions,
+      this.primary,
     )
   }
 
@@ -218,6 +479,7 @@ export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
   ): QueryFind<P> {
     return new QueryFind(
       this.query,
+      this.replica,
       this.metadata,
       this.entries,
       this.schema,
@@ -225,192 +487,1393 @@ export class QueryFind<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
       this.limitCount,
       this.offsetCount,
       (this.orderOptions ?? []).concat({ key, order }),
+      this.primary,
+    )
+  }
+
+  /** Count rows matching this query condition, limit and offset are ignored */
+  public async count(): Promise<number> {
+    const [row] = await this.aggregate({ count: count() })
+    return row?.count ?? 0
+  }
+
+  /** Check if any row matches this query condition */
+  public async exists(): Promise<boolean> {
+    const table = this.metadata.get(this.schema)
+    const connection = this.primary ? this.query : this.replica
+    const rows: AnyRecord[] = await buildFind(
+      connection,
+      table,
+      table.ids.map((column) => column.columnName),
+      this.condition,
+      1,
+      undefined,
+      undefined,
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Aggregate rows matching this query condition, limit, offset and order are
+   * ignored
+   *
+   * @param aggregators Aggregate functions keyed by its result name
+   */
+  public aggregate<A extends QueryAggregators<P>>(
+    aggregators: A,
+  ): QueryAggregate<P, A> {
+    return new QueryAggregate(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      aggregators,
+      this.condition,
+      this.primary,
+    )
+  }
+
+  /**
+   * Select only given properties instead of whole entity, relation is only
+   * loaded when it or any of its path is selected
+   */
+  public select<K extends QueryPath<P>>(...keys: K[]): QuerySelect<P, K> {
+    return new QuerySelect(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      keys,
+      this.condition,
+      this.limitCount,
+      this.offsetCount,
+      this.orderOptions,
+      this.primary,
+    )
+  }
+
+  /**
+   * Run this query on primary connection instead of read replica, used when
+   * the result must include recently written rows
+   */
+  public usePrimary(): QueryFind<P> {
+    return new QueryFind(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      this.condition,
+      this.limitCount,
+      this.offsetCount,
+      this.orderOptions,
+      true,
+    )
+  }
+
+  /**
+   * Update every row matching this query condition using a single query
+   * without loading them. Limit, offset and order are ignored. Loaded entries
+   * of updated rows are released, so they are read again afterward
+   *
+   * @param value Base properties to be updated
+   * @returns Number of updated rows
+   */
+  public async update(
+    value: Partial<OptionalOf<TypeOf<QueryBaseProps<P>>>>,
+  ): Promise<number> {
+    const table = this.metadata.get(this.schema)
+    const values = Object.fromEntries(
+      Object.entries(value).map(([name, item]) => {
+        const column = getBaseColumn(table, name)
+        return [
+          column.columnName,
+          createColumnValue(column, column.schema.encode(item)),
+        ]
+      }),
+    )
+    if (Object.keys(values).length === 0) {
+      return 0
+    }
+
+    let query = this.query.clone().from(table.name)
+    if (this.condition !== undefined) {
+      query = buildFilter(query, table, this.condition)
+    }
+    if (this.entries.findAll(table).length > 0) {
+      // matching rows are read first, updated rows may no longer match
+      const rows: AnyRecord[] = await query
+        .clone()
+        .select(table.ids.map((column) => column.columnName))
+      this.entries.release(
+        rows
+          .map((row) => createRaw(table, table.fromRow(row))!)
+          .map((raw) =>
+            this.entries.findByKey(
+              table,
+              createKey(table.ids.map((column) => raw[column.name])),
+            ),
+          )
+          .filter((entry) => entry !== undefined),
+      )
+    }
+    return query.update(getDialect(this.query).toRow(values))
+  }
+
+  /** Register rows read by given query as entries and resolve its relations */
+  private async fetch(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    query: Knex.QueryBuilder,
+  ): Promise<Entry[]> {
+    const result: AnyRecord[] = await query
+    const entries = result
+      .map((row) => createRaw(table, table.fromRow(row)))
+      .map((raw) => this.entries.instantiate(table, raw))
+      .filter((entry) => entry !== undefined)
+    entries.forEach((entry) => {
+      entry.dirty = false
+      entry.initialized = true
+    })
+
+    // resolve relations
+    await Promise.all(
+      table.relationColumns.map((column) =>
+        column.through !== undefined
+          ? this.resolveThrough(connection, entries, column, column.through)
+          : this.resolve(entries, column),
+      ),
+    )
+
+    return entries
+  }
+
+  private async resolve(
+    entries: Entry[],
+    column: RelationColumnMetadata,
+  ): Promise<void> {
+    const lookups = entries
+      .map((entry) =>
+        column.sourceColumns.map(
+          (sourceColumn) => entry.property(sourceColumn)?.value,
+        ),
+      )
+      .filter((values) => values.every((value) => value !== undefined))
+    const [foreignColumn, ...otherColumns] = column.foreignColumns
+    const condition =
+      otherColumns.length === 0
+        ? and(
+            includes(
+              foreignColumn!.name,
+              lookups.map(([value]) => value),
+            ),
+          )
+        : or(
+            ...lookups.map((values) =>
+              and(
+                ...column.foreignColumns.map((foreignColumn, index) =>
+                  eq(foreignColumn.name, values[index]),
+                ),
+              ),
+            ),
+          )
+    const foreignEntries =
+      lookups.length > 0 ? await this.findForeign(column, condition) : []
+    entries.forEach((entry) => {
+      const matchedValues = foreignEntries
+        .filter((foreignEntry) =>
+          column.sourceColumns.every((sourceColumn, index) => {
+            const value = entry.property(sourceColumn)?.value
+            return (
+              value !== undefined &&
+              value ===
+                foreignEntry.property(column.foreignColumns[index]!)?.value
+            )
+          }),
+        )
+        .map((entry) => entry.value)
+      entry.property(column)!.value = column.collection
+        ? matchedValues
+        : matchedValues[0]
+    })
+  }
+
+  private async resolveThrough(
+    connection: Knex.QueryBuilder,
+    entries: Entry[],
+    column: RelationColumnMetadata,
+    through: JunctionMetadata,
+  ): Promise<void> {
+    const ids = entries
+      .map((entry) => entry.id.value)
+      .filter((value) => value !== undefined)
+    const links = await readLinks(connection, column, through, ids)
+    const foreignEntries = await this.findForeign(
+      column,
+      and(
+        includes(
+          column.foreignTable.id.name,
+          links.map(([, foreignId]) => foreignId),
+        ),
+      ),
     )
+    entries.forEach((entry) => {
+      const foreignIds = links
+        .filter(([sourceId]) => isRawEqual(sourceId, entry.id.value))
+        .map(([, foreignId]) => foreignId)
+      entry.property(column)!.value = foreignEntries
+        .filter((foreignEntry) =>
+          foreignIds.some((id) => isRawEqual(id, foreignEntry.id.value)),
+        )
+        .map((entry) => entry.value)
+    })
+  }
+
+  private async findForeign(
+    column: RelationColumnMetadata,
+    condition: QueryFilterGroup<AnyRecord<Schema>>,
+  ): Promise<Entry[]> {
+    const foreignQuery = this.from(column.foreignTable.schema).find(condition)
+    return (this.primary ? foreignQuery.usePrimary() : foreignQuery).execute()
   }
 }
 
+/**
+ * Query returning only selected properties. Rows are read without registering
+ * them as entries, so partially loaded rows are never treated as complete
+ */
+export class QuerySelect<P extends AnyRecord<Schema>, K extends QueryPath<P>>
+  extends QueryCollection<P>
+  implements PromiseLike<QuerySelection<P, K>[]>
+{
+  public constructor(
+    query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
+    metadata: MetadataRegistry,
+    entries: EntryRegistry,
+    schema: ObjectSchema<P>,
+    private readonly keys: K[],
+    private readonly condition?: QueryFilterGroup<P> | undefined,
+    private readonly limitCount?: number,
+    private readonly offsetCount?: number,
+    private readonly orderOptions?: QueryOrder<P>[] | undefined,
+    private readonly primary: boolean = false,
+  ) {
+    super(query, replica, metadata, entries, schema)
+  }
+
+  public async run(): Promise<QuerySelection<P, K>[]> {
+    const table = this.metadata.get(this.schema)
+    const connection = this.primary ? this.query : this.replica
+    const selection = readSelection(table, this.keys)
+    const raws = await this.project(connection, table, selection, [], (names) =>
+      buildFind(
+        connection,
+        table,
+        names,
+        this.condition,
+        this.limitCount,
+        this.offsetCount,
+        this.orderOptions,
+      ),
+    )
+    return raws.map(
+      (raw) => decodeSelection(table, selection, raw) as QuerySelection<P, K>,
+    )
+  }
+
+  public then<R = QuerySelection<P, K>[], RE = never>(
+    onfulfilled?: (value: QuerySelection<P, K>[]) => R | PromiseLike<R>,
+    onrejected?: (reason: any) => RE | PromiseLike<RE>,
+  ): PromiseLike<R | RE> {
+    return this.run().then(onfulfilled, onrejected)
+  }
+
+  /**
+   * Read selected columns of given table along with columns required to
+   * resolve its relations, then resolve selected relations
+   */
+  private async project(
+    connection: Knex.QueryBuilder,
+    table: TableMetadata,
+    selection: QuerySelectionMap,
+    required: ColumnMetadata[],
+    build: (columnNames: string[]) => Knex.QueryBuilder,
+  ): Promise<NonNullable<RawSingleObject>[]> {
+    const relations = table.relationColumns.filter((column) =>
+      selection.has(column.name),
+    )
+    const columns = table.baseColumns.filter(
+      (column) =>
+        selection.has(column.name) ||
+        required.includes(column) ||
+        relations.some((relation) => relation.sourceColumns.includes(column)),
+    )
+    const rows: AnyRecord[] = await build(
+      columns.map((column) => column.columnName),
+    )
+    const raws = rows.map((row) => createRaw(table, table.fromRow(row))!)
+    await Promise.all(
+      relations.map((column) =>
+        this.projectRelation(
+          connection,
+          raws,
+          column,
+          readSelection(column.foreignTable, selection.get(column.name)),
+        ),
+      ),
+    )
+    return raws
+  }
+
+  private async projectRelation(
+    connection: Knex.QueryBuilder,
+    raws: NonNullable<RawSingleObject>[],
+    column: RelationColumnMetadata,
+    selection: QuerySelectionMap,
+  ): Promise<void> {
+    const foreignTable = column.foreignTable
+    const through = column.through
+    const lookups = raws
+      .map((raw) =>
+        column.sourceColumns.map((sourceColumn) => raw[sourceColumn.name]),
+      )
+      .filter((values): values is RawScalar[] =>
+        values.every((value) => value !== undefined),
+      )
+    const links =
+      through !== undefined
+        ? await readLinks(
+            connection,
+            column,
+            through,
+            lookups.map((values) => values[0]!),
+          )
+        : []
+    const foreignIds = links.map(([, foreignId]) => foreignId)
+    const foreignColumns =
+      through !== undefined ? [foreignTable.id] : column.foreignColumns
+
+    const foreignRaws =
+      (through !== undefined ? foreignIds : lookups).length === 0
+        ? []
+        : await this.project(
+            connection,
+            foreignTable,
+            selection,
+            foreignColumns,
+            (names) => {
+              const query = connection
+                .clone()
+                .from(foreignTable.name)
+                .select(...names)
+              return through !== undefined
+                ? query.whereIn(
+                    foreignTable.id.columnName,
+                    foreignIds.map((id) => getColumnValue(foreignTable.id, id)),
+                  )
+                : query.where((query) =>
+                    lookups.forEach((values) =>
+                      query.orWhere(
+                        Object.fromEntries(
+                          foreignColumns.map((foreignColumn, index) => [
+                            foreignColumn.columnName,
+                            getColumnValue(foreignColumn, values[index]),
+                          ]),
+                        ),
+                      ),
+                    ),
+                  )
+            },
+          )
+
+    raws.forEach((raw) => {
+      const matched = foreignRaws.filter((foreignRaw) =>
+        through !== undefined
+          ? links.some(
+              ([sourceId, foreignId]) =>
+                isRawEqual(sourceId, raw[column.sourceColumns[0]!.name]) &&
+                isRawEqual(foreignId, foreignRaw[foreignTable.id.name]),
+            )
+          : column.sourceColumns.every(
+              (sourceColumn, index) =>
+                raw[sourceColumn.name] !== undefined &&
+                isRawEqual(
+                  raw[sourceColumn.name],
+                  foreignRaw[column.foreignColumns[index]!.name],
+                ),
+            ),
+      )
+      raw[column.name] = column.collection ? matched : matched[0]
+    })
+  }
+}
+
+/**
+ * Query aggregating rows matching condition, optionally grouped by given
+ * properties. Having condition filter aggregated rows by its aggregate names
+ * or grouped properties
+ */
+export class QueryAggregate<
+    P extends AnyRecord<Schema>,
+    A extends QueryAggregators<P>,
+    G extends keyof P = never,
+  >
+  extends QueryCollection<P>
+  implements PromiseLike<QueryAggregateResult<P, A, G>[]>
+{
+  public constructor(
+    query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
+    metadata: MetadataRegistry,
+    entries: EntryRegistry,
+    schema: ObjectSchema<P>,
+    private readonly aggregators: A,
+    private readonly condition?: QueryFilterGroup<P> | undefined,
+    private readonly primary: boolean = false,
+    private readonly groupKeys: G[] = [],
+    private readonly havingCondition?:
+      | QueryFilterGroup<QueryAggregateProps<P, A, G>>
+      | undefined,
+  ) {
+    super(query, replica, metadata, entries, schema)
+  }
+
+  public async run(): Promise<QueryAggregateResult<P, A, G>[]> {
+    const table = this.metadata.get(this.schema)
+    const connection = this.primary ? this.query : this.replica
+    const groupColumns = this.groupKeys.map((key) => getBaseColumn(table, key))
+    const groupColumnNames = groupColumns.map((column) => column.columnName)
+
+    let query = connection.clone().from(table.name).select(groupColumnNames)
+    if (this.condition !== undefined) {
+      query = buildFilter(query, table, this.condition)
+    }
+    for (const [name, aggregator] of Object.entries(this.aggregators)) {
+      query = buildAggregator(query, table, name, aggregator)
+    }
+    if (groupColumnNames.length > 0) {
+      query = query.groupBy(groupColumnNames)
+    }
+    if (this.havingCondition !== undefined) {
+      // filter aggregated rows as derived table, so aggregate can be
+      // referenced by its name on every database
+      query = buildFilter(
+        connection.clone().from(query.as('aggregate')).select('*'),
+        table,
+        this.havingCondition,
+        'aggregate',
+      )
+    }
+
+    const rows: AnyRecord[] = await query
+    return rows.map((row) => {
+      const result: AnyRecord = {}
+      groupColumns.forEach((column) => {
+        const value = createRawValue(column, row[column.columnName])
+        if (value !== undefined) {
+          result[column.name] = column.schema.decode(value)
+        }
+      })
+      for (const [name, aggregator] of Object.entries(this.aggregators)) {
+        const value = row[name] ?? undefined
+        if (aggregator.operator === 'count') {
+          result[name] = Number(value ?? 0)
+        } else if (value === undefined) {
+          result[name] = undefined
+        } else if (
+          aggregator.operator === 'min' ||
+          aggregator.operator === 'max'
+        ) {
+          const column = getBaseColumn(table, aggregator.key!)
+          result[name] = column.schema.decode(createRawValue(column, value))
+        } else {
+          result[name] = Number(value)
+        }
+      }
+      return result as QueryAggregateResult<P, A, G>
+    })
+  }
+
+  public then<R = QueryAggregateResult<P, A, G>[], RE = never>(
+    onfulfilled?: (
+      value: QueryAggregateResult<P, A, G>[],
+    ) => R | PromiseLike<R>,
+    onrejected?: (reason: any) => RE | PromiseLike<RE>,
+  ): PromiseLike<R | RE> {
+    return this.run().then(onfulfilled, onrejected)
+  }
+
+  /** Group aggregated rows by given properties, included in the result */
+  public groupBy<K extends keyof P>(...keys: K[]): QueryAggregate<P, A, G | K> {
+    return new QueryAggregate<P, A, G | K>(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      this.aggregators,
+      this.condition,
+      this.primary,
+      [...this.groupKeys, ...keys],
+    )
+  }
+
+  public having(
+    condition: QueryCondition<QueryAggregateProps<P, A, G>>,
+  ): QueryAggregate<P, A, G> {
+    return new QueryAggregate(
+      this.query,
+      this.replica,
+      this.metadata,
+      this.entries,
+      this.schema,
+      this.aggregators,
+      this.condition,
+      this.primary,
+      this.groupKeys,
+      and(condition),
+    )
+  }
+}
+
+/**
+ * Id value, or object of every id value keyed by its property for entity with
+ * composite id. Id properties are declared by schema metadata which is not
+ * typed, so they are given as `K`, and nothing is accepted without any
+ */
+export type QueryId<P extends AnyRecord<Schema>, K extends keyof P> = [
+  K,
+] extends [never]
+  ? never
+  : TypeOf<P[K]> | { readonly [I in K]: TypeOf<P[I]> }
+
 export interface QueryOrder<P extends AnyRecord<Schema>> {
   readonly key: keyof P
   readonly order: 'asc' | 'desc'
 }
 
+export interface QueryStreamOptions {
+  /** Number of rows read at once, a positive integer, 100 by default */
+  readonly batchSize?: number | undefined
+}
+
+export interface QueryPageOptions {
+  /** Number of rows read after `after` cursor */
+  readonly first?: number | undefined
+  readonly after?: string | undefined
+  /** Number of rows read backward before `before` cursor */
+  readonly last?: number | undefined
+  readonly before?: string | undefined
+}
+
+export interface QueryPageInfo {
+  /** Cursor of the first row, undefined when page is empty */
+  readonly startCursor: string | undefined
+  /** Cursor of the last row, undefined when page is empty */
+  readonly endCursor: string | undefined
+  readonly hasNextPage: boolean
+  readonly hasPreviousPage: boolean
+}
+
+export interface QueryPage<T> {
+  readonly items: T[]
+  readonly pageInfo: QueryPageInfo
+}
+
+export interface QueryOffsetPage<T> {
+  readonly items: T[]
+  /** Number of rows matching the query condition */
+  readonly total: number
+  /** Page number, counted from 1 */
+  readonly page: number
+  readonly pageSize: number
+  readonly pageCount: number
+}
+
+/** Selected property names mapped into selected paths of its relation */
+type QuerySelectionMap = Map<string, string[] | undefined>
+
+/**
+ * Group selected keys by its property name, every declared property is
+ * selected when keys is undefined
+ */
+function readSelection(
+  table: TableMetadata,
+  keys: string[] | undefined,
+): QuerySelectionMap {
+  const selection: QuerySelectionMap = new Map()
+  if (keys === undefined) {
+    table.columns
+      .filter((column) => column.declared)
+      .forEach((column) => selection.set(column.name, undefined))
+    return selection
+  }
+
+  for (const key of keys) {
+    const [name, ...path] = key.split('.')
+    const column = table.column(name!)
+    if (column === undefined) {
+      throw new Error(`Column "${name}" is not declared in "${table.name}"`)
+    } else if (path.length === 0) {
+      selection.set(column.name, undefined)
+    } else if (!(column instanceof RelationColumnMetadata)) {
+      throw new Error(`Column "${name}" of "${table.name}" is not a relation`)
+    } else if (!selection.has(column.name) || selection.get(column.name)) {
+      // whole relation is kept when selected along with its paths
+      selection.set(column.name, [
+        ...(selection.get(column.name) ?? []),
+        path.join('.'),
+      ])
+    }
+  }
+  return selection
+}
+
+/** Decode selected properties of raw object by its column schema */
+function decodeSelection(
+  table: TableMetadata,
+  selection: QuerySelectionMap,
+  raw: AnyRecord,
+): AnyRecord {
+  const value: AnyRecord = {}
+  for (const [name, keys] of selection) {
+    const column = table.column(name)!
+    const item = raw[name]
+    if (item === undefined) {
+      continue
+    } else if (column instanceof RelationColumnMetadata) {
+      const foreignTable = column.foreignTable
+      const nested = readSelection(foreignTable, keys)
+      value[name] = Array.isArray(item)
+        ? item.map((foreignRaw) =>
+            decodeSelection(foreignTable, nested, foreignRaw),
+          )
+        : decodeSelection(foreignTable, nested, item)
+    } else {
+      value[name] = column.schema.decode(item)
+    }
+  }
+  return value
+}
+
+function buildFind<P extends AnyRecord<Schema>>(
+  connection: Knex.QueryBuilder,
+  table: TableMetadata,
+  columnNames: string[],
+  condition: QueryFilterGroup<P> | undefined,
+  limitCount: number | undefined,
+  offsetCount: number | undefined,
+  orderOptions: QueryOrder<P>[] | undefined,
+): Knex.QueryBuilder {
+  let query = connection
+    .clone()
+    .from(table.name)
+    .select(...columnNames)
+
+  if (condition !== undefined) {
+    query = buildFilter(query, table, condition)
+  }
+
+  if (limitCount !== undefined) {
+    query = query.limit(limitCount)
+  }
+
+  if (offsetCount !== undefined) {
+    query = query.offset(offsetCount)
+  }
+
+  if (orderOptions !== undefined) {
+    query = orderOptions.reduce(
+      (query, opts) =>
+        query.orderBy(table.columnName(string().decode(opts.key)), opts.order),
+      query,
+    )
+  }
+  return query
+}
+
+/** Order columns of keyset pagination, ids are added as tiebreaker */
+function getPageOrders<P extends AnyRecord<Schema>>(
+  table: TableMetadata,
+  orderOptions: QueryOrder<P>[] | undefined,
+): [ColumnMetadata, 'asc' | 'desc'][] {
+  const orders = (orderOptions ?? []).map(
+    (opts): [ColumnMetadata, 'asc' | 'desc'] => [
+      getBaseColumn(table, opts.key),
+      opts.order,
+    ],
+  )
+  return orders.concat(
+    table.ids
+      .filter((id) => !orders.some(([column]) => column === id))
+      .map((id) => [id, 'asc']),
+  )
+}
+
+/**
+ * Filter rows after or before the row of given cursor. Since orders may have
+ * mixed direction, `(a, b) > (x, y)` is written as `a > x or (a = x and b > y)`.
+ * NULL is ordered before any other value of nullable columns
+ */
+function buildCursor(
+  query: Knex.QueryBuilder,
+  table: TableMetadata,
+  orders: [ColumnMetadata, 'asc' | 'desc'][],
+  cursor: string,
+  direction: 'after' | 'before',
+): Knex.QueryBuilder {
+  const values = decodeCursor(orders, cursor)
+  const columnName = (column: ColumnMetadata): string =>
+    `${table.name}.${column.columnName}`
+  return query.where((query) =>
+    orders.forEach(([column, order], index) =>
+      query.orWhere((query) => {
+        orders
+          .slice(0, index)
+          .forEach(([previous], previousIndex) =>
+            whereCursor(
+              query,
+              previous,
+              columnName(previous),
+              '=',
+              values[previousIndex]!,
+            ),
+          )
+        const greater = (order === 'asc') === (direction === 'after')
+        whereCursor(
+          query,
+          column,
+          columnName(column),
+          greater ? '>' : '<',
+          values[index]!,
+        )
+      }),
+    ),
+  )
+}
+
+/** Compare column with value of cursor, where NULL is the smallest value */
+function whereCursor(
+  query: Knex.QueryBuilder,
+  column: ColumnMetadata,
+  name: string,
+  operator: '=' | '>' | '<',
+  value: Knex.Value,
+): Knex.QueryBuilder {
+  if (value === null) {
+    if (operator === '=') {
+      return query.whereNull(name)
+    }
+    return operator === '>' ? query.whereNotNull(name) : query.whereRaw('1 = 0')
+  } else if (operator === '<' && column.nullable) {
+    return query.where((query) =>
+      query.where(name, operator, value).orWhereNull(name),
+    )
+  }
+  return query.where(name, operator, value)
+}
+
+function encodeCursor(
+  orders: [ColumnMetadata, 'asc' | 'desc'][],
+  entry: Entry,
+): string {
+  const values = orders.map(([column]) =>
+    getColumnValue(column, entry.property(column)?.value),
+  )
+  return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+function decodeCursor(
+  orders: [ColumnMetadata, 'asc' | 'desc'][],
+  cursor: string,
+): Knex.Value[] {
+  const values: unknown = JSON.parse(
+    Buffer.from(cursor, 'base64url').toString(),
+  )
+  if (!Array.isArray(values) || values.length !== orders.length) {
+    throw new Error('Invalid cursor, it does not match order of the query')
+  }
+  return orders.map(([column], index) =>
+    getColumnValue(column, createRawValue(column, values[index])),
+  )
+}
+
 function buildFilter<P extends AnyRecord<Schema>>(
   query: Knex.QueryBuilder,
+  table: TableMetadata,
   group: QueryFilterGroup<P>,
+  alias: string = table.name,
 ): Knex.QueryBuilder {
-  if (group.operator === 'or') {
-    for (const condition of group.conditions) {
-      switch (condition.operator) {
-        case 'and':
-          query = query.orWhere((query) => buildFilter(query, condition))
-          break
-        case 'or':
-          query = query.orWhere((query) => buildFilter(query, condition))
-          break
-        case 'eq':
-          query = query.orWhere(condition.key, '=', condition.value)
-          break
-        case 'ne':
-          query = query.orWhere(condition.key, '<>', condition.value)
-          break
-        case 'gt':
-          query = query.orWhere(condition.key, '>', condition.value)
-          break
-        case 'gte':
-          query = query.orWhere(condition.key, '>=', condition.value)
-          break
-        case 'lt':
-          query = query.orWhere(condition.key, '<', condition.value)
-          break
-        case 'lte':
-          query = query.orWhere(condition.key, '<=', condition.value)
-          break
-        case 'in':
-          query = query.orWhereIn(condition.key, condition.values)
-          break
-      }
+  if (group.operator === 'not') {
+    return query.whereNot((query) =>
+      buildFilter(query, table, and(...group.conditions), alias),
+    )
+  }
+
+  for (const condition of group.conditions) {
+    const build = (query: Knex.QueryBuilder): void => {
+      buildCondition(query, table, condition, alias)
     }
-  } else if (group.operator === 'and') {
-    for (const condition of group.conditions) {
-      switch (condition.operator) {
-        case 'and':
-          query = query.andWhere((query) => buildFilter(query, condition))
-          break
-        case 'or':
-          query = query.andWhere((query) => buildFilter(query, condition))
-          break
-        case 'eq':
-          query = query.andWhere(condition.key, '=', condition.value)
-          break
-        case 'ne':
-          query = query.andWhere(condition.key, '<>', condition.value)
-          break
-        case 'gt':
-          query = query.andWhere(condition.key, '>', condition.value)
-          break
-        case 'gte':
-          query = query.andWhere(condition.key, '>=', condition.value)
-          break
-        case 'lt':
-          query = query.andWhere(condition.key, '<', condition.value)
-          break
-        case 'lte':
-          query = query.andWhere(condition.key, '<=', condition.value)
-          break
-        case 'in':
-          query = query.whereIn(condition.key, condition.values)
-          break
-      }
+    query = group.operator === 'or' ? query.orWhere(build) : query.where(build)
+  }
+  return query
+}
+
+function buildCondition<P extends AnyRecord<Schema>>(
+  query: Knex.QueryBuilder,
+  table: TableMetadata,
+  condition: QueryCondition<P>,
+  alias: string,
+): Knex.QueryBuilder {
+  if (isFilterGroup(condition)) {
+    return buildFilter(query, table, condition, alias)
+  } else if (isFilterRelation(condition)) {
+    return buildRelation(
+      query,
+      table,
+      condition.operator,
+      condition.key,
+      condition.condition,
+      alias,
+    )
+  }
+
+  // filter on relation path is the same as filter on some related entries
+  const [key, ...path] = string().decode(condition.key).split('.')
+  if (path.length > 0) {
+    const nested = and<AnyRecord<Schema>>({ ...condition, key: path.join('.') })
+    return buildRelation(query, table, 'some', key!, nested, alias)
+  }
+
+  const columnName = `${alias}.${table.columnName(key!)}`
+  switch (condition.operator) {
+    case 'eq':
+      return query.where(columnName, '=', condition.value)
+    case 'ne':
+      return query.where(columnName, '<>', condition.value)
+    case 'gt':
+      return query.where(columnName, '>', condition.value)
+    case 'gte':
+      return query.where(columnName, '>=', condition.value)
+    case 'lt':
+      return query.where(columnName, '<', condition.value)
+    case 'lte':
+      return query.where(columnName, '<=', condition.value)
+    case 'like':
+      return query.whereRaw('?? like ? escape ?', [
+        columnName,
+        condition.value,
+        '\\',
+      ])
+    case 'ilike':
+      // lower is used since not every database support ilike
+      return query.whereRaw('lower(??) like lower(?) escape ?', [
+        columnName,
+        condition.value,
+        '\\',
+      ])
+    case 'null':
+      return query.whereNull(columnName)
+    case 'notNull':
+      return query.whereNotNull(columnName)
+    case 'in':
+      return query.whereIn(columnName, condition.values)
+    case 'notIn':
+      return query.whereNotIn(columnName, condition.values)
+    case 'between':
+      return query.whereBetween(columnName, condition.values)
+  }
+}
+
+/**
+ * Filter by related entries using `exists` subquery, the related table is
+ * aliased by its path so it can be referenced by nested relation filters
+ */
+function buildRelation<P extends AnyRecord<Schema>>(
+  query: Knex.QueryBuilder,
+  table: TableMetadata,
+  operator: 'some' | 'every' | 'none',
+  key: string,
+  condition: QueryFilterGroup<P>,
+  alias: string,
+): Knex.QueryBuilder {
+  const column = table.relationColumns.find((column) => column.name === key)
+  if (column === undefined) {
+    throw new Error(`Relation "${key}" is not declared in "${table.name}"`)
+  } else if (operator === 'every' && condition.conditions.length === 0) {
+    return query
+  }
+
+  const foreignTable = column.foreignTable
+  const foreignAlias = `${alias}_${column.name}`
+  const through = column.through
+  const build = (query: Knex.QueryBuilder): void => {
+    if (through !== undefined) {
+      const junctionAlias = `${foreignAlias}_through`
+      query
+        .from({ [junctionAlias]: through.name })
+        .join(
+          { [foreignAlias]: foreignTable.name },
+          `${foreignAlias}.${foreignTable.id.columnName}`,
+          `${junctionAlias}.${through.foreignColumn}`,
+        )
+        .whereRaw('?? = ??', [
+          `${junctionAlias}.${through.sourceColumn}`,
+          `${alias}.${table.id.columnName}`,
+        ])
+    } else {
+      query.from({ [foreignAlias]: foreignTable.name })
+      column.sourceColumns.forEach((sourceColumn, index) =>
+        query.whereRaw('?? = ??', [
+          `${foreignAlias}.${column.foreignColumns[index]!.columnName}`,
+          `${alias}.${sourceColumn.columnName}`,
+        ]),
+      )
+    }
+
+    // every related entries match when none of them do not match
+    if (condition.conditions.length > 0) {
+      const group = operator === 'every' ? not(condition) : condition
+      query.where((query) =>
+        buildFilter(query, foreignTable, group, foreignAlias),
+      )
     }
   }
+  return operator === 'some'
+    ? query.whereExists(build)
+    : query.whereNotExists(build)
+}
 
-  return query
+function isFilterGroup<P extends AnyRecord<Schema>>(
+  condition: QueryCondition<P>,
+): condition is QueryFilterGroup<P> {
+  return (
+    condition.operator === 'and' ||
+    condition.operator === 'or' ||
+    condition.operator === 'not'
+  )
+}
+
+function isFilterRelation<P extends AnyRecord<Schema>>(
+  condition: QueryCondition<P>,
+): condition is QueryFilterRelation<P, keyof P & string> {
+  return (
+    condition.operator === 'some' ||
+    condition.operator === 'every' ||
+    condition.operator === 'none'
+  )
+}
+
+/** Properties of related object schema, unwrapping array and optional */
+export type QueryRelationProps<S> =
+  S extends ObjectSchema<infer P extends AnyRecord<Schema>>
+    ? P
+    : S extends { readonly schema: infer I }
+      ? QueryRelationProps<I>
+      : never
+
+/**
+ * Properties stored in base columns. Relations are told apart by its object
+ * schema, so properties holding object are excluded as well
+ */
+export type QueryBaseProps<P extends AnyRecord<Schema>> = {
+  [K in keyof P as [QueryRelationProps<P[K]>] extends [never] ? K : never]: P[K]
 }
 
-export interface QueryFilter<P extends AnyRecord<Schema>, K extends keyof P> {
+/**
+ * Property name or path of property of related entities separated by dot,
+ * e.g. `author.name`
+ */
+export type QueryPath<P extends AnyRecord<Schema>> = {
+  [K in keyof P & string]:
+    | K
+    | ([QueryRelationProps<P[K]>] extends [never]
+        ? never
+        : `${K}.${QueryPath<QueryRelationProps<P[K]>>}`)
+}[keyof P & string]
+
+/** Entity type narrowed into selected properties and relation paths */
+export type QuerySelection<
+  P extends AnyRecord<Schema>,
+  K extends string,
+> = OptionalOf<{
+  [H in keyof P & string as H extends K
+    ? H
+    : K extends `${H}.${string}`
+      ? H
+      : never]: H extends K
+    ? TypeOf<P[H]>
+    : QuerySelectionRelation<P[H], K extends `${H}.${infer R}` ? R : never>
+}>
+
+type QuerySelectionRelation<S, K extends string> =
+  | (NonNullable<TypeOf<S>> extends unknown[]
+      ? QuerySelection<QueryRelationProps<S>, K>[]
+      : QuerySelection<QueryRelationProps<S>, K>)
+  | Extract<TypeOf<S>, null | undefined>
+
+/** Type of value of property at given {@link QueryPath} */
+export type QueryPathValue<
+  P extends AnyRecord<Schema>,
+  K extends string,
+> = K extends keyof P
+  ? TypeOf<P[K]>
+  : K extends `${infer H}.${infer R}`
+    ? QueryPathValue<QueryRelationProps<P[H]>, R>
+    : never
+
+/** Any condition accepted by query filter */
+export type QueryCondition<
+  P extends AnyRecord<Schema>,
+  K extends QueryPath<P> = QueryPath<P>,
+> =
+  | QueryFilter<P, K>
+  | QueryFilterPattern<P, K>
+  | QueryFilterNull<P, K>
+  | QueryFilterMultiple<P, K>
+  | QueryFilterRange<P, K>
+  | QueryFilterRelation<P, keyof P & string>
+  | QueryFilterGroup<P>
+
+export interface QueryFilter<
+  P extends AnyRecord<Schema>,
+  K extends QueryPath<P>,
+> {
   readonly operator: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte'
   readonly key: K
-  readonly value: TypeOf<P[K]>
+  readonly value: QueryPathValue<P, K>
 }
 
-export function eq<P extends AnyRecord<Schema>, K extends keyof P>(
+export function eq<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
   key: K,
-  value: TypeOf<P[K]>,
+  value: QueryPathValue<P, K>,
 ): QueryFilter<P, K> {
   return { key, operator: 'eq', value }
 }
 
-export function ne<P extends AnyRecord<Schema>, K extends keyof P>(
+export function ne<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
   key: K,
-  value: TypeOf<P[K]>,
+  value: QueryPathValue<P, K>,
 ): QueryFilter<P, K> {
   return { key, operator: 'ne', value }
 }
 
-export function gt<P extends AnyRecord<Schema>, K extends keyof P>(
+export function gt<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
   key: K,
-  value: TypeOf<P[K]>,
+  value: QueryPathValue<P, K>,
 ): QueryFilter<P, K> {
   return { key, operator: 'gt', value }
 }
 
-export function gte<P extends AnyRecord<Schema>, K extends keyof P>(
+export function gte<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
   key: K,
-  value: TypeOf<P[K]>,
+  value: QueryPathValue<P, K>,
 ): QueryFilter<P, K> {
   return { key, operator: 'gte', value }
 }
 
-export function lt<P extends AnyRecord<Schema>, K extends keyof P>(
+export function lt<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
   key: K,
-  value: TypeOf<P[K]>,
+  value: QueryPathValue<P, K>,
 ): QueryFilter<P, K> {
   return { key, operator: 'lt', value }
 }
 
-export function lte<P extends AnyRecord<Schema>, K extends keyof P>(
+export function lte<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  value: QueryPathValue<P, K>,
+): QueryFilter<P, K> {
+  return { key, operator: 'lte', value }
+}
+
+/**
+ * Pattern filter, `%` matches any characters and `_` matches a single
+ * character. Both can be escaped using backslash. Case sensitivity of `like`
+ * follows the database, e.g. SQLite ignores case of ASCII characters
+ */
+export interface QueryFilterPattern<
+  P extends AnyRecord<Schema>,
+  K extends QueryPath<P>,
+> {
+  readonly operator: 'like' | 'ilike'
+  readonly key: K
+  readonly value: string
+}
+
+export function like<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  pattern: string,
+): QueryFilterPattern<P, K> {
+  return { key, operator: 'like', value: pattern }
+}
+
+/** Case insensitive {@link like} */
+export function ilike<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  pattern: string,
+): QueryFilterPattern<P, K> {
+  return { key, operator: 'ilike', value: pattern }
+}
+
+export function startsWith<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  value: string,
+): QueryFilterPattern<P, K> {
+  return like(key, `${escapePattern(value)}%`)
+}
+
+export function endsWith<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  value: string,
+): QueryFilterPattern<P, K> {
+  return like(key, `%${escapePattern(value)}`)
+}
+
+export function contains<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  value: string,
+): QueryFilterPattern<P, K> {
+  return like(key, `%${escapePattern(value)}%`)
+}
+
+function escapePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+export interface QueryFilterNull<
+  P extends AnyRecord<Schema>,
+  K extends QueryPath<P>,
+> {
+  readonly operator: 'null' | 'notNull'
+  readonly key: K
+}
+
+export function isNull<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+): QueryFilterNull<P, K> {
+  return { key, operator: 'null' }
+}
+
+export function isNotNull<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+): QueryFilterNull<P, K> {
+  return { key, operator: 'notNull' }
+}
+
+export interface QueryFilterMultiple<
+  P extends AnyRecord<Schema>,
+  K extends QueryPath<P>,
+> {
+  readonly operator: 'in' | 'notIn'
+  readonly key: K
+  readonly values: QueryPathValue<P, K>[]
+}
+
+export function includes<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  values: QueryPathValue<P, K>[],
+): QueryFilterMultiple<P, K> {
+  return { key, operator: 'in', values }
+}
+
+export function notIn<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
+  key: K,
+  values: QueryPathValue<P, K>[],
+): QueryFilterMultiple<P, K> {
+  return { key, operator: 'notIn', values }
+}
+
+export interface QueryFilterRange<
+  P extends AnyRecord<Schema>,
+  K extends QueryPath<P>,
+> {
+  readonly operator: 'between'
+  readonly key: K
+  readonly values: readonly [QueryPathValue<P, K>, QueryPathValue<P, K>]
+}
+
+/** Filter value within inclusive range */
+export function between<P extends AnyRecord<Schema>, K extends QueryPath<P>>(
   key: K,
-  value: TypeOf<P[K]>,
-): QueryFilter<P, K> {
-  return { key, operator: 'lte', value }
+  from: QueryPathValue<P, K>,
+  to: QueryPathValue<P, K>,
+): QueryFilterRange<P, K> {
+  return { key, operator: 'between', values: [from, to] }
 }
 
-export interface QueryFilterMultiple<
+/** Filter by entries of relation, single relation behaves like collection */
+export interface QueryFilterRelation<
   P extends AnyRecord<Schema>,
-  K extends keyof P,
+  K extends keyof P & string,
 > {
-  readonly operator: 'in'
+  readonly operator: 'some' | 'every' | 'none'
   readonly key: K
-  readonly values: TypeOf<P[K]>[]
+  readonly condition: QueryFilterGroup<QueryRelationProps<P[K]>>
 }
 
-export function includes<P extends AnyRecord<Schema>, K extends keyof P>(
+/** Filter entity with at least one related entry matching all conditions */
+export function some<P extends AnyRecord<Schema>, K extends keyof P & string>(
   key: K,
-  values: TypeOf<P[K]>[],
-): QueryFilterMultiple<P, K> {
-  return { key, operator: 'in', values }
+  ...conditions: QueryCondition<QueryRelationProps<P[K]>>[]
+): QueryFilterRelation<P, K> {
+  return { key, operator: 'some', condition: and(...conditions) }
+}
+
+/** Filter entity which all of its related entries match all conditions */
+export function every<P extends AnyRecord<Schema>, K extends keyof P & string>(
+  key: K,
+  ...conditions: QueryCondition<QueryRelationProps<P[K]>>[]
+): QueryFilterRelation<P, K> {
+  return { key, operator: 'every', condition: and(...conditions) }
+}
+
+/** Filter entity without any related entry matching all conditions */
+export function none<P extends AnyRecord<Schema>, K extends keyof P & string>(
+  key: K,
+  ...conditions: QueryCondition<QueryRelationProps<P[K]>>[]
+): QueryFilterRelation<P, K> {
+  return { key, operator: 'none', condition: and(...conditions) }
 }
 
 export interface QueryFilterGroup<P extends AnyRecord<Schema>> {
-  readonly operator: 'and' | 'or'
-  readonly conditions: (
-    | QueryFilter<P, keyof P>
-    | QueryFilterMultiple<P, keyof P>
-    | QueryFilterGroup<P>
-  )[]
+  readonly operator: 'and' | 'or' | 'not'
+  readonly conditions: QueryCondition<P>[]
 }
 
 export function and<P extends AnyRecord<Schema>>(
-  ...conditions: (
-    | QueryFilter<P, keyof P>
-    | QueryFilterMultiple<P, keyof P>
-    | QueryFilterGroup<P>
-  )[]
+  ...conditions: QueryCondition<P>[]
 ): QueryFilterGroup<P> {
   return { operator: 'and', conditions }
 }
 
 export function or<P extends AnyRecord<Schema>>(
-  ...conditions: (
-    | QueryFilter<P, keyof P>
-    | QueryFilterMultiple<P, keyof P>
-    | QueryFilterGroup<P>
-  )[]
+  ...conditions: QueryCondition<P>[]
 ): QueryFilterGroup<P> {
   return { operator: 'or', conditions }
 }
 
+/** Negate all given conditions joined by `and` */
+export function not<P extends AnyRecord<Schema>>(
+  ...conditions: QueryCondition<P>[]
+): QueryFilterGroup<P> {
+  return { operator: 'not', conditions }
+}
+
+function buildAggregator<P extends AnyRecord<Schema>>(
+  query: Knex.QueryBuilder,
+  table: TableMetadata,
+  name: string,
+  aggregator: QueryAggregator<P, keyof P, QueryAggregateOperator>,
+): Knex.QueryBuilder {
+  const columnName =
+    aggregator.key !== undefined
+      ? `${table.name}.${getBaseColumn(table, aggregator.key).columnName}`
+      : '*'
+  switch (aggregator.operator) {
+    case 'count':
+      return query.count({ [name]: columnName })
+    case 'sum':
+      return query.sum({ [name]: columnName })
+    case 'avg':
+      return query.avg({ [name]: columnName })
+    case 'min':
+      return query.min({ [name]: columnName })
+    case 'max':
+      return query.max({ [name]: columnName })
+  }
+}
+
+export type QueryAggregateOperator = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export interface QueryAggregator<
+  P extends AnyRecord<Schema>,
+  K extends keyof P,
+  O extends QueryAggregateOperator,
+> {
+  readonly operator: O
+  readonly key?: K | undefined
+}
+
+/** Aggregators of a query keyed by its result name */
+export type QueryAggregators<P extends AnyRecord<Schema>> = Record<
+  string,
+  QueryAggregator<P, keyof P, QueryAggregateOperator>
+>
+
+/**
+ * Type of aggregated value, sum and average are read as number while minimum
+ * and maximum keep its property type. Empty group result undefined
+ */
+export type QueryAggregateValue<P extends AnyRecord<Schema>, A> =
+  A extends QueryAggregator<P, infer K, infer O>
+    ? O extends 'count'
+      ? number
+      : O extends 'min' | 'max'
+        ? TypeOf<P[K]> | undefined
+        : number | undefined
+    : never
+
+export type QueryAggregateResult<
+  P extends AnyRecord<Schema>,
+  A extends QueryAggregators<P>,
+  G extends keyof P,
+> = { [K in keyof A]: QueryAggregateValue<P, A[K]> } & OptionalOf<{
+  [K in G]: TypeOf<P[K]>
+}>
+
+/** Properties of aggregated row, used to filter aggregated rows */
+export type QueryAggregateProps<
+  P extends AnyRecord<Schema>,
+  A extends QueryAggregators<P>,
+  G extends keyof P,
+> = { [K in keyof A]: Schema<QueryAggregateValue<P, A[K]>> } & Pick<P, G>
+
+/** Count rows, or rows with value of given property not null */
+export function count<P extends AnyRecord<Schema>, K extends keyof P = never>(
+  key?: K,
+): QueryAggregator<P, K, 'count'> {
+  return { key, operator: 'count' }
+}
+
+export function sum<P extends AnyRecord<Schema>, K extends keyof P>(
+  key: K,
+): QueryAggregator<P, K, 'sum'> {
+  return { key, operator: 'sum' }
+}
+
+export function avg<P extends AnyRecord<Schema>, K extends keyof P>(
+  key: K,
+): QueryAggregator<P, K, 'avg'> {
+  return { key, operator: 'avg' }
+}
+
+export function min<P extends AnyRecord<Schema>, K extends keyof P>(
+  key: K,
+): QueryAggregator<P, K, 'min'> {
+  return { key, operator: 'min' }
+}
+
+export function max<P extends AnyRecord<Schema>, K extends keyof P>(
+  key: K,
+): QueryAggregator<P, K, 'max'> {
+  return { key, operator: 'max' }
+}
+
 export class QueryInsert<
   P extends AnyRecord<Schema>,
 > extends QueryExecutable<P> {
   public constructor(
     query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
     metadata: MetadataRegistry,
     entries: EntryRegistry,
     schema: ObjectSchema<P>,
     private readonly value: OptionalOf<TypeOf<P>>,
   ) {
-    super(query, metadata, entries, schema)
+    super(query, replica, metadata, entries, schema)
   }
 
   public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
@@ -420,20 +1883,50 @@ export class QueryInsert<
     const entry = this.entries.instantiate(table, raw)
     await loadAll(this.query, this.entries, table)
     entry.value = raw
+    await loadReferences(this.query, this.entries, [entry])
     await commit(this.query, this.entries, table)
     return this.schema.array().decode(entry.value)
   }
 }
 
+export class QueryInsertMany<
+  P extends AnyRecord<Schema>,
+> extends QueryExecutable<P> {
+  public constructor(
+    query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
+    metadata: MetadataRegistry,
+    entries: EntryRegistry,
+    schema: ObjectSchema<P>,
+    private readonly values: OptionalOf<TypeOf<P>>[],
+  ) {
+    super(query, replica, metadata, entries, schema)
+  }
+
+  public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
+    const table = this.metadata.get(this.schema)
+    const raws = this.values.map(
+      (value) => createRaw(table, this.schema.encode(value))!,
+    )
+    const entries = raws.map((raw) => this.entries.instantiate(table, raw))
+    await loadAll(this.query, this.entries, table)
+    entries.forEach((entry, index) => (entry.value = raws[index]))
+    await loadReferences(this.query, this.entries, entries)
+    await commit(this.query, this.entries, table)
+    return this.schema.array().decode(entries.map((entry) => entry.value))
+  }
+}
+
 export class QuerySave<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
   public constructor(
     query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
     metadata: MetadataRegistry,
     entries: EntryRegistry,
     schema: ObjectSchema<P>,
     private readonly value: OptionalOf<TypeOf<P>>,
   ) {
-    super(query, metadata, entries, schema)
+    super(query, replica, metadata, entries, schema)
   }
 
   public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
@@ -443,11 +1936,163 @@ export class QuerySave<P extends AnyRecord<Schema>> extends QueryExecutable<P> {
     const entry = this.entries.instantiate(table, raw)
     await loadAll(this.query, this.entries, table)
     entry.value = raw
+    await loadReferences(this.query, this.entries, [entry])
+    await commit(this.query, this.entries, table)
+    return this.schema.array().decode(entry.value)
+  }
+}
+
+export interface QueryUpsertOptions<P extends AnyRecord<Schema>> {
+  /** Properties of unique constraint used to detect conflict */
+  readonly conflict: (keyof P)[]
+  /**
+   * Properties updated on conflict, every inserted property by default.
+   * Nothing is updated when empty
+   */
+  readonly update?: (keyof P)[] | undefined
+}
+
+export class QueryUpsert<
+  P extends AnyRecord<Schema>,
+> extends QueryExecutable<P> {
+  public constructor(
+    query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
+    metadata: MetadataRegistry,
+    entries: EntryRegistry,
+    schema: ObjectSchema<P>,
+    private readonly value: OptionalOf<TypeOf<P>>,
+    private readonly options: QueryUpsertOptions<P>,
+  ) {
+    super(query, replica, metadata, entries, schema)
+  }
+
+  public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
+    const table = this.metadata.get(this.schema)
+    const raw = createRaw(table, this.schema.encode(this.value))!
+    const entry = this.entries.instantiate(table, raw)
+    await loadAll(this.query, this.entries, table)
+    entry.value = raw
+    await loadReferences(this.query, this.entries, [entry])
+
+    // new related entries with id are upserted by its id, the rest are
+    // inserted as usual
+    for (const related of this.entries.tables) {
+      this.entries
+        .findAll(related)
+        .filter((item) => !item.initialized && item.key !== undefined)
+        .forEach((item) => (item.conflict = { columns: related.ids }))
+    }
+    entry.conflict = {
+      columns: this.options.conflict.map((name) => getBaseColumn(table, name)),
+      update: this.options.update?.map((name) => getBaseColumn(table, name)),
+    }
     await commit(this.query, this.entries, table)
     return this.schema.array().decode(entry.value)
   }
 }
 
+export class QueryRemove<
+  P extends AnyRecord<Schema>,
+> extends QueryExecutable<P> {
+  public constructor(
+    query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
+    metadata: MetadataRegistry,
+    entries: EntryRegistry,
+    schema: ObjectSchema<P>,
+    private readonly value: OptionalOf<TypeOf<P>>,
+  ) {
+    super(query, replica, metadata, entries, schema)
+  }
+
+  public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
+    const table = this.metadata.get(this.schema)
+    const encoded = this.schema.encode(this.value)
+    const raw = createRaw(table, encoded)!
+    const ids = table.ids.map(
+      (column) => [column.name, raw[column.name]] as const,
+    )
+    if (ids.some(([, value]) => value === undefined)) {
+      return []
+    }
+
+    // read from database to resolve relations of removed entity
+    const entries = await this.from(table.schema)
+      .find(and(...ids.map(([key, value]) => eq(key, value))))
+      .usePrimary()
+      .execute()
+    const removed = await remove(this.query, this.entries, table, entries)
+    return this.schema.array().decode(removed)
+  }
+}
+
+export class QueryDelete<
+  P extends AnyRecord<Schema>,
+> extends QueryExecutable<P> {
+  public constructor(
+    query: Knex.QueryBuilder,
+    replica: Knex.QueryBuilder,
+    metadata: MetadataRegistry,
+    entries: EntryRegistry,
+    schema: ObjectSchema<P>,
+    private readonly condition: QueryFilterGroup<P>,
+  ) {
+    super(query, replica, metadata, entries, schema)
+  }
+
+  public override async run(): Promise<OptionalOf<TypeOf<P>>[]> {
+    const table = this.metadata.get(this.schema)
+    const entries = await this.find(this.condition).usePrimary().execute()
+    const removed = await remove(this.query, this.entries, table, entries)
+    return this.schema.array().decode(removed)
+  }
+}
+
+function getBaseColumn(table: TableMetadata, name: Key): ColumnMetadata {
+  const column = table.baseColumns.find((column) => column.name === name)
+  if (column === undefined) {
+    throw new Error(
+      `Column "${String(name)}" is not declared in "${table.name}"`,
+    )
+  }
+  return column
+}
+
+/** Read raw value of every id column from given id */
+function readIds(
+  table: TableMetadata,
+  id: unknown,
+): [string, RawSingleValue][] {
+  const isRecord =
+    typeof id === 'object' &&
+    id !== null &&
+    !(id instanceof Date) &&
+    !Buffer.isBuffer(id)
+  if (!isRecord && table.ids.length > 1) {
+    throw new Error(`Id of "${table.name}" must be an object of its id values`)
+  }
+  const unknown = isRecord
+    ? Object.keys(id).find(
+        (name) => !table.ids.some((column) => column.name === name),
+      )
+    : undefined
+  if (unknown !== undefined) {
+    throw new Error(`Id of "${table.name}" has unknown property "${unknown}"`)
+  }
+  return table.ids.map((column) => {
+    const value = isRecord ? (id as AnyRecord)[column.name] : id
+    if (value === undefined || value === null) {
+      throw new Error(`Id of "${table.name}" is missing "${column.name}"`)
+    }
+    return [column.name, createRawValue(column, column.schema.encode(value))]
+  })
+}
+
+function findAllEntries(registry: EntryRegistry): Entry[] {
+  return [...registry.tables].flatMap((table) => registry.findAll(table))
+}
+
 async function loadAll(
   connection: Knex.QueryBuilder,
   registry: EntryRegistry,
@@ -466,21 +2111,24 @@ async function load(
   registry: EntryRegistry,
   table: TableMetadata,
 ): Promise<void> {
-  const ids = registry
+  const entries = registry
     .findAll(table)
     .filter((entry) => !entry.initialized)
-    .map((entry) => entry.id.value)
-    .filter((raw) => raw !== undefined)
-  if (ids.length > 0) {
-    const columnNames = table.baseColumns.map((column) => column.name)
-    const query = connection
-      .clone()
-      .from(table.name)
-      .select(columnNames)
-      .whereIn(table.id.name, ids)
-    const rows: unknown[] = await query
+    .filter((entry) => entry.key !== undefined)
+  if (entries.length > 0) {
+    const columnNames = table.baseColumns.map((column) => column.columnName)
+    const query = connection.clone().from(table.name).select(columnNames)
+    const rows: AnyRecord[] =
+      table.ids.length === 1
+        ? await query.whereIn(
+            table.id.columnName,
+            entries.map((entry) => getColumnValue(table.id, entry.id.value)),
+          )
+        : await query.where((builder) =>
+            entries.forEach((entry) => builder.orWhere(entry.condition)),
+          )
     rows
-      .map((row) => createRaw(table, row))
+      .map((row) => createRaw(table, table.fromRow(row)))
       .map((raw) => registry.instantiate(table, raw))
       .filter((entry) => entry !== undefined)
       .forEach((entry) => {
@@ -490,6 +2138,60 @@ async function load(
   }
 }
 
+/**
+ * Ensure weak relations of saved entries only reference existing entries,
+ * only strong relations insert its referenced entries
+ */
+async function loadReferences(
+  connection: Knex.QueryBuilder,
+  registry: EntryRegistry,
+  entries: Entry[],
+): Promise<void> {
+  const saved = new Set<Entry>()
+  const collect = (entry: Entry): void => {
+    if (!saved.has(entry)) {
+      saved.add(entry)
+      entry.relationProperties
+        .filter((prop) => prop.column.type === 'strong')
+        .flatMap((prop) => prop.entries)
+        .forEach(collect)
+    }
+  }
+  entries.forEach(collect)
+
+  const references = [...saved].flatMap((entry) =>
+    entry.relationProperties.filter((prop) => prop.column.type === 'weak'),
+  )
+  const tables = new Set(references.map((prop) => prop.column.foreignTable))
+  await Promise.all(
+    [...tables].map((foreignTable) => load(connection, registry, foreignTable)),
+  )
+  references.forEach((prop) => {
+    if (prop.entries.some((related) => !related.initialized)) {
+      throw new Error(
+        `Relation "${prop.column.name}" of "${prop.column.table.name}" is weak, it can only reference existing entries`,
+      )
+    }
+  })
+}
+
+/**
+ * Remove given entries along with its strong references
+ *
+ * @returns Values of removed entries
+ */
+async function remove(
+  connection: Knex.QueryBuilder,
+  registry: EntryRegistry,
+  table: TableMetadata,
+  entries: Entry[],
+): Promise<NonNullable<RawSingleObject>[]> {
+  const removed = entries.map((entry) => entry.value)
+  entries.forEach((entry) => (entry.remove = true))
+  await commit(connection, registry, table)
+  return removed
+}
+
 async function commit(
   connection: Knex.QueryBuilder,
   registry: EntryRegistry,
@@ -498,13 +2200,35 @@ async function commit(
   registry
     .findAll(table)
     .filter((entry) => entry.remove)
-    .forEach((entry) =>
-      entry.relationProperties.forEach((prop) => (prop.value = undefined)),
-    )
+    .forEach((entry) => cascadeRemove(entry))
+  Array.from(registry.tables)
+    .flatMap((table) => registry.findAll(table))
+    .filter((entry) => entry.remove)
+    .forEach((entry) => {
+      // release join columns referencing removed entry
+      entry.unbind()
+      entry.relationProperties.forEach((prop) => (prop.value = undefined))
+    })
   await commitSave(connection, registry, table)
   await commitRemove(connection, registry, table)
 }
 
+/**
+ * Mark entries of strong relations as removed, many-to-many relations only
+ * remove its links
+ */
+function cascadeRemove(entry: Entry): void {
+  entry.relationProperties
+    .filter((prop) => prop.column.type === 'strong')
+    .filter((prop) => prop.column.through === undefined)
+    .flatMap((prop) => prop.entries)
+    .filter((related) => !related.remove)
+    .forEach((related) => {
+      related.remove = true
+      cascadeRemove(related)
+    })
+}
+
 async function commitSave(
   connection: Knex.QueryBuilder,
   registry: EntryRegistry,
@@ -512,6 +2236,19 @@ async function commitSave(
 ): Promise<void> {
   const entries = registry.findAll(table)
 
+  // collect changed collection relations before entries become clean
+  const collections = table.relationColumns
+    .filter((column) => column.collection)
+    .flatMap((column) =>
+      entries
+        .filter((entry) => !entry.remove)
+        .filter((entry) => entry.property(column)?.dirty)
+        .filter((entry) => entry.property(column)?.value !== undefined)
+        // new entry do not have any entry to be dropped from its collection
+        .filter((entry) => column.through !== undefined || entry.initialized)
+        .map((entry) => [entry, column] as const),
+    )
+
   // commit dependencies
   await Promise.all(
     table.relationColumns
@@ -522,15 +2259,17 @@ async function commitSave(
   entries.forEach((entry) => entry.bind())
 
   // commit current entry
-  await Promise.all(
-    entries
-      .filter((entry) => entry.dirty && !entry.remove)
-      .map((entry) =>
-        entry.initialized
-          ? commitUpdateOne(connection, entry)
-          : commitInsertOne(connection, entry),
-      ),
-  )
+  const changed = entries.filter((entry) => entry.dirty && !entry.remove)
+  await Promise.all([
+    ...changed
+      .filter((entry) => entry.initialized)
+      .map((entry) => commitUpdateOne(connection, entry)),
+    commitInsertMany(
+      connection,
+      table,
+      changed.filter((entry) => !entry.initialized),
+    ),
+  ])
   entries.forEach((entry) => entry.bind())
 
   // commit dependents
@@ -540,6 +2279,166 @@ async function commitSave(
       .map((column) => column.foreignTable)
       .map((foreignTable) => commitSave(connection, registry, foreignTable)),
   )
+
+  // commit links of many-to-many relations, or entries dropped from collection
+  await Promise.all(
+    collections.map(([entry, column]) =>
+      column.through !== undefined
+        ? commitLinks(connection, entry, column)
+        : commitOrphans(connection, registry, entry, column),
+    ),
+  )
+}
+
+/**
+ * Unlink entries dropped from collection relation by clearing its join
+ * columns, or remove them if the relation has orphan removal enabled
+ */
+async function commitOrphans(
+  connection: Knex.QueryBuilder,
+  registry: EntryRegistry,
+  entry: Entry,
+  column: RelationColumnMetadata,
+): Promise<void> {
+  const prop = entry.property(column)
+  const values = column.sourceColumns.map(
+    (sourceColumn) => entry.property(sourceColumn)?.value,
+  )
+  if (
+    !(prop instanceof EntryPropertyMultiRelation) ||
+    values.some((value) => value === undefined)
+  ) {
+    return
+  }
+
+  const foreignTable = column.foreignTable
+  const condition = Object.fromEntries(
+    column.foreignColumns.map((foreignColumn, index) => [
+      foreignColumn.columnName,
+      getColumnValue(foreignColumn, values[index]),
+    ]),
+  )
+  const keys = prop.entries.map((entry) => entry.key)
+  const rows: AnyRecord[] = await connection
+    .clone()
+    .from(foreignTable.name)
+    .select(foreignTable.baseColumns.map((column) => column.columnName))
+    .where(condition)
+  const orphans = rows
+    .map((row) => createRaw(foreignTable, foreignTable.fromRow(row))!)
+    .filter(
+      (raw) =>
+        !keys.includes(
+          createKey(foreignTable.ids.map((column) => raw[column.name])),
+        ),
+    )
+    .map((raw) => registry.instantiate(foreignTable, raw))
+  orphans.forEach((orphan) => {
+    orphan.dirty = false
+    orphan.initialized = true
+  })
+
+  if (column.orphanRemoval) {
+    // removed later along with other removed entries
+    orphans.forEach((orphan) => (orphan.remove = true))
+    return
+  }
+  await Promise.all(
+    orphans.map((orphan) => {
+      column.foreignColumns.forEach(
+        (foreignColumn) => (orphan.property(foreignColumn)!.value = undefined),
+      )
+      return commitUpdateOne(connection, orphan)
+    }),
+  )
+}
+
+async function commitLinks(
+  connection: Knex.QueryBuilder,
+  entry: Entry,
+  column: RelationColumnMetadata,
+): Promise<void> {
+  const prop = entry.property(column)
+  const through = column.through
+  const sourceId = entry.id.value
+  if (
+    !(prop instanceof EntryPropertyMultiRelation) ||
+    through === undefined ||
+    sourceId === undefined
+  ) {
+    return
+  }
+
+  const linked = (await readLinks(connection, column, through, [sourceId])).map(
+    ([, foreignId]) => foreignId,
+  )
+  const current = prop.entries
+    .map((entry) => entry.id.value)
+    .filter((value) => value !== undefined)
+  const added = current.filter(
+    (id) => !linked.some((linkedId) => isRawEqual(id, linkedId)),
+  )
+  const removed = linked.filter(
+    (id) => !current.some((currentId) => isRawEqual(id, currentId)),
+  )
+
+  const sourceColumn = column.sourceColumns[0]!
+  const foreignColumn = column.foreignColumns[0]!
+  if (added.length > 0) {
+    await connection
+      .clone()
+      .from(through.name)
+      .insert(
+        added.map((foreignId) => ({
+          [through.sourceColumn]: getColumnValue(sourceColumn, sourceId),
+          [through.foreignColumn]: getColumnValue(foreignColumn, foreignId),
+        })),
+      )
+  }
+  if (removed.length > 0) {
+    await connection
+      .clone()
+      .from(through.name)
+      .delete()
+      .where(through.sourceColumn, getColumnValue(sourceColumn, sourceId))
+      .whereIn(
+        through.foreignColumn,
+        removed.map((id) => getColumnValue(foreignColumn, id)),
+      )
+  }
+}
+
+/**
+ * Read links of given source ids from junction table
+ *
+ * @returns Pairs of source and foreign id
+ */
+async function readLinks(
+  connection: Knex.QueryBuilder,
+  column: RelationColumnMetadata,
+  through: JunctionMetadata,
+  sourceIds: RawScalar[],
+): Promise<[RawScalar, RawScalar][]> {
+  if (sourceIds.length === 0) {
+    return []
+  }
+  const sourceColumn = column.sourceColumns[0]!
+  const foreignColumn = column.foreignColumns[0]!
+  const rows: AnyRecord[] = await connection
+    .clone()
+    .from(through.name)
+    .select(through.sourceColumn, through.foreignColumn)
+    .whereIn(
+      through.sourceColumn,
+      sourceIds.map((id) => getColumnValue(sourceColumn, id)),
+    )
+  return rows.flatMap((row) => {
+    const sourceId = createRawValue(sourceColumn, row[through.sourceColumn])
+    const foreignId = createRawValue(foreignColumn, row[through.foreignColumn])
+    return sourceId !== undefined && foreignId !== undefined
+      ? [[sourceId, foreignId] as [RawScalar, RawScalar]]
+      : []
+  })
 }
 
 async function commitUpdateOne(
@@ -548,44 +2447,88 @@ async function commitUpdateOne(
 ): Promise<void> {
   const changes = entry.baseProperties
     .filter((prop) => prop.dirty && !prop.column.id && !prop.column.generated)
-    .map((prop) => [prop.column.name, prop.changes] as const)
+    .map((prop) => [prop.column.columnName, prop.changes] as const)
+  // only relations are changed
+  if (changes.length === 0) {
+    entry.dirty = false
+    return
+  }
+
   const updateMap = Object.fromEntries(changes)
-  const columnNames = entry.table.baseColumns.map((column) => column.name)
-  const query = connection
-    .clone()
-    .from(entry.table.name)
-    .update(updateMap)
-    .where(entry.id.column.name, entry.id.value)
-    .limit(1)
-    .returning(columnNames)
-  const rows = await query
+  const rows = await getDialect(connection).update(
+    connection,
+    entry.table,
+    entry.condition,
+    updateMap,
+  )
   rows
-    .map((row) => createRaw(entry.table, row))
+    .map((row) => createRaw(entry.table, entry.table.fromRow(row)))
     .filter((raw) => raw !== undefined)
     .forEach((raw) => (entry.value = raw))
   entry.dirty = false
   entry.initialized = true
 }
 
-async function commitInsertOne(
+/**
+ * Insert entries of the same table using multi-row inserts, entries are
+ * grouped by its changed columns so each row only insert its own values
+ */
+async function commitInsertMany(
   connection: Knex.QueryBuilder,
-  entry: Entry,
+  table: TableMetadata,
+  entries: Entry[],
 ): Promise<void> {
-  const changes = entry.baseProperties
-    .filter((prop) => prop.dirty && !prop.column.generated)
-    .map((prop) => [prop.column.name, prop.changes] as const)
-  const insertMap = Object.fromEntries(changes)
-  const columnNames = entry.table.baseColumns.map((column) => column.name)
-  const query = connection
-    .clone()
-    .from(entry.table.name)
-    .insert(insertMap)
-    .returning(columnNames)
-  const rows = await query
-  rows
-    .map((row) => createRaw(entry.table, row))
-    .filter((raw) => raw !== undefined)
-    .forEach((raw) => (entry.value = raw))
+  const dialect = getDialect(connection)
+  const groups: Map<string, [Entry, AnyRecord][]> = new Map()
+  const upserts: [Entry, AnyRecord, EntryConflict][] = []
+  for (const entry of entries) {
+    const changes = entry.baseProperties
+      .filter((prop) => prop.dirty && !prop.column.generated)
+      .map((prop) => [prop.column.columnName, prop.changes] as const)
+    const insertMap = Object.fromEntries(changes)
+    if (entry.conflict !== undefined) {
+      upserts.push([entry, insertMap, entry.conflict])
+      continue
+    }
+    const signature = changes.map(([name]) => name).join(',')
+    groups.set(signature, [
+      ...(groups.get(signature) ?? []),
+      [entry, insertMap],
+    ])
+  }
+
+  for (const group of groups.values()) {
+    const rows = await dialect.insertMany(
+      connection,
+      table,
+      group.map(([, insertMap]) => insertMap),
+    )
+    // returned rows are in the same order as inserted entries
+    group.forEach(([entry], index) => commitRow(table, entry, rows[index]))
+  }
+
+  for (const [entry, insertMap, conflict] of upserts) {
+    const [row] = await dialect.upsert(
+      connection,
+      table,
+      insertMap,
+      conflict.columns.map((column) => column.columnName),
+      conflict.update?.map((column) => column.columnName),
+    )
+    entry.conflict = undefined
+    commitRow(table, entry, row)
+  }
+}
+
+/** Mark entry as written into database, assign values of written row */
+function commitRow(
+  table: TableMetadata,
+  entry: Entry,
+  row: AnyRecord | undefined,
+): void {
+  if (row !== undefined) {
+    entry.value = createRaw(table, table.fromRow(row))
+  }
   entry.dirty = false
   entry.initialized = true
 }
@@ -595,6 +2538,22 @@ async function commitRemove(
   registry: EntryRegistry,
   table: TableMetadata,
 ): Promise<void> {
+  // remove links of many-to-many relations on either side
+  const junctions = table.junctions
+  const removedIds = registry
+    .findAll(table)
+    .filter((entry) => entry.remove)
+    .map((entry) => (junctions.length > 0 ? entry.id.value : undefined))
+    .filter((value) => value !== undefined)
+    .map((value) => getColumnValue(table.id, value))
+  if (removedIds.length > 0) {
+    await Promise.all(
+      junctions.map(([name, column]) =>
+        connection.clone().from(name).delete().whereIn(column, removedIds),
+      ),
+    )
+  }
+
   // commit dependents
   await Promise.all(
     table.relationColumns
@@ -623,17 +2582,13 @@ async function commitDeleteOne(
   connection: Knex.QueryBuilder,
   entry: Entry,
 ): Promise<void> {
-  const columnNames = entry.table.baseColumns.map((column) => column.name)
-  const query = connection
-    .clone()
-    .from(entry.table.name)
-    .delete()
-    .where(entry.id.column.name, entry.id.value)
-    .limit(1)
-    .returning(columnNames)
-  const rows = await query
+  const rows = await getDialect(connection).delete(
+    connection,
+    entry.table,
+    entry.condition,
+  )
   rows
-    .map((row) => createRaw(entry.table, row))
+    .map((row) => createRaw(entry.table, entry.table.fromRow(row)))
     .filter((raw) => raw !== undefined)
     .forEach((raw) => (entry.value = raw))
   entry.remove = false
@@ -8,6 +8,10 @@ export function generate(value: boolean = true): Partial<Definition> {
   return { generated: value }
 }
 
+export function column(name: string): Partial<Definition> {
+  return { column: name }
+}
+
 export function table(name: string): Partial<Definition> {
   return { entity: name }
 }
@@ -17,14 +21,24 @@ export function document(name: string): Partial<Definition> {
 }
 
 export interface JoinOptions {
-  readonly name?: string
+  /** Join column name, or names in order of referenced composite id */
+  readonly name?: string | string[]
   readonly owner?: 'source' | 'foreign'
+  /** Junction table name of many-to-many relation */
+  readonly through?: string
+  /** Column in junction table referencing foreign table */
+  readonly inverseName?: string
+  /** Remove entries dropped from collection instead of only unlinking them */
+  readonly orphanRemoval?: boolean
 }
 
 export function join(options: JoinOptions): Partial<Definition> {
   return {
     joinName: options.name,
     joinOwner: options.owner ?? 'source',
+    joinThrough: options.through,
+    joinInverseName: options.inverseName,
+    joinOrphanRemoval: options.orphanRemoval,
   }
 }
 
@@ -1,26 +1,28 @@
-import { object, number, string } from 'pertype'
+import { Knex } from 'knex'
+import { Schema, object, number, string } from 'pertype'
 import { DataSource } from './source'
-import { getEnvironment } from './util/environment'
+import { getDataSourceConfig } from './util/environment'
 
 describe('Transaction', () => {
-  const { CLIENT, HOST, PORT, USER, PASSWORD, DATABASE } = getEnvironment()
-  const db = new DataSource({
-    client: CLIENT,
-    host: HOST,
-    port: PORT,
-    user: USER,
-    password: PASSWORD,
-    database: DATABASE,
-  })
+  const config = getDataSourceConfig()
+  const db = new DataSource(config)
   const base = object({
     id: number().optional().set('id', true).set('generated', true),
     key: string(),
     value: string().optional(),
   })
 
+  /** Create tables of schema on memory client, others use existing tables */
+  async function prepare(schema: Schema) {
+    if (config.client === 'memory') {
+      await db.synchronize(schema)
+    }
+  }
+
   it('Should perform transaction commit', async () => {
     const tableName = 'transaction_commit'
     const schema = base.set('table', tableName)
+    await prepare(schema)
     await db.connection().from(tableName).truncate()
     await db.transaction(async (db) => {
       await db
@@ -39,6 +41,7 @@ describe('Transaction', () => {
   it('Should perform transaction rollback', async () => {
     const tableName = 'transaction_rollback'
     const schema = base.set('table', tableName)
+    await prepare(schema)
     await db.connection().from(tableName).truncate()
     await db.transaction(async (db) => {
       await db
@@ -51,5 +54,31 @@ describe('Transaction', () => {
     expect(result).toHaveLength(0)
   })
 
+  it('Should find entity loaded by transaction without querying', async () => {
+    const tableName = 'transaction_find_by_id'
+    const schema = base.set('table', tableName)
+    await prepare(schema)
+    await db.connection().from(tableName).truncate()
+    const [inserted] = await db.from(schema).insert({ key: 'key-1' })
+
+    const queries: string[] = []
+    const listener = (query: Knex.Sql): void => {
+      queries.push(query.sql)
+    }
+    db.connection().on('query', listener)
+    try {
+      await db.transaction(async (db) => {
+        const loaded = await db.from(schema).findById(inserted!.id!)
+        const count = queries.length
+        const found = await db.from(schema).findById(inserted!.id!)
+        expect(found).toStrictEqual(loaded)
+        expect(queries).toHaveLength(count)
+      })
+    } finally {
+      db.connection().off('query', listener)
+    }
+    expect(queries.some((sql) => sql.startsWith('select'))).toBe(true)
+  })
+
   afterAll(() => db.close())
 })
@@ -9,7 +9,7 @@ export class Transaction extends Query {
     metadata: MetadataRegistry,
     registry: EntryRegistry,
   ) {
-    super(trx.queryBuilder(), metadata, registry)
+    super(trx.queryBuilder(), trx.queryBuilder(), metadata, registry)
   }
 
   public async commit(): Promise<void> {
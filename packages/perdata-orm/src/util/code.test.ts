@@ -0,0 +1,33 @@
+import { pascalCase, pluralize, propertyKey, quote, quoteNames } from './code'
+
+describe('Code', () => {
+  it('Should quote and escape string literal', () => {
+    expect(quote('table')).toBe("'table'")
+    expect(quote("it's")).toBe("'it\\'s'")
+    expect(quote('a\\b')).toBe("'a\\\\b'")
+  })
+
+  it('Should quote property key only when it is not an identifier', () => {
+    expect(propertyKey('author_id')).toBe('author_id')
+    expect(propertyKey('created-at')).toBe("'created-at'")
+    expect(propertyKey('1st')).toBe("'1st'")
+  })
+
+  it('Should convert name into pascal case identifier', () => {
+    expect(pascalCase('post_tag')).toBe('PostTag')
+    expect(pascalCase('user')).toBe('User')
+    expect(pascalCase('2fa_code')).toBe('_2faCode')
+  })
+
+  it('Should quote several names as array', () => {
+    expect(quoteNames(['id'])).toBe("'id'")
+    expect(quoteNames(['tenant', 'code'])).toBe("['tenant', 'code']")
+  })
+
+  it('Should convert noun into its plural form', () => {
+    expect(pluralize('post')).toBe('posts')
+    expect(pluralize('category')).toBe('categories')
+    expect(pluralize('address')).toBe('addresses')
+    expect(pluralize('day')).toBe('days')
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * Quote given value as single quoted string literal
+ *
+ * @param value Value to be quoted
+ * @returns String literal of the value
+ */
+export function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/**
+ * Render given names as a single string literal, or array of string literals
+ * when there are several names
+ *
+ * @param names Names to be rendered
+ * @returns Source code of the names
+ */
+export function quoteNames(names: string[]): string {
+  return names.length === 1
+    ? quote(names[0]!)
+    : `[${names.map((name) => quote(name)).join(', ')}]`
+}
+
+/**
+ * Create object property key, the key is quoted when it is not a valid
+ * identifier
+ *
+ * @param name Property name
+ * @returns Property key
+ */
+export function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+}
+
+/**
+ * Convert given name into pascal case identifier, e.g. `post_tag` into
+ * `PostTag`
+ *
+ * @param name Name to be converted
+ * @returns Pascal case identifier
+ */
+export function pascalCase(name: string): string {
+  const identifier = name
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+  return /^[A-Za-z]/.test(identifier) ? identifier : `_${identifier}`
+}
+
+/**
+ * Convert given english noun into its plural form, e.g. `category` into
+ * `categories`
+ *
+ * @param name Noun to be converted
+ * @returns Plural form of the noun
+ */
+export function pluralize(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) {
+    return `${name.slice(0, -1)}ies`
+  } else if (/(s|x|z|ch|sh)$/i.test(name)) {
+    return `${name}es`
+  }
+  return `${name}s`
+}
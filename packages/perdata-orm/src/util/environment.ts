@@ -1,14 +1,32 @@
 import 'dotenv/config'
-import { TypeOf, literal, number, object, string } from 'pertype'
+import { TypeOf, literal, number, object, string, union } from 'pertype'
+import {
+  DataSourceConfig,
+  HostDataSourceConfig,
+  UrlDataSourceConfig,
+} from '../source'
 
-const Environment = object({
-  CLIENT: literal('pg'),
-  HOST: string(),
-  PORT: number(),
-  USER: string(),
-  PASSWORD: string(),
-  DATABASE: string(),
-})
+const Environment = union(
+  object({
+    CLIENT: union(literal('pg'), literal('mysql2')),
+    DATABASE_URL: string(),
+  }),
+  object({
+    CLIENT: union(literal('pg'), literal('mysql2')),
+    HOST: string(),
+    PORT: number(),
+    USER: string(),
+    PASSWORD: string(),
+    DATABASE: string(),
+  }),
+  object({
+    CLIENT: literal('sqlite'),
+    FILENAME: string(),
+  }),
+  object({
+    CLIENT: literal('memory'),
+  }),
+)
 
 export type Environment = TypeOf<typeof Environment>
 
@@ -19,3 +37,40 @@ export type Environment = TypeOf<typeof Environment>
 export function getEnvironment(): Environment {
   return Environment.decode(process.env)
 }
+
+/**
+ * Get {@link DataSourceConfig} from environment variable
+ * @returns Data source configuration
+ */
+export function getDataSourceConfig(): DataSourceConfig {
+  const env = getEnvironment()
+  switch (env.CLIENT) {
+    case 'pg':
+    case 'mysql2': {
+      const connection: UrlDataSourceConfig | HostDataSourceConfig =
+        'DATABASE_URL' in env
+          ? {
+              url: env.DATABASE_URL,
+            }
+          : {
+              host: env.HOST,
+              port: env.PORT,
+              user: env.USER,
+              password: env.PASSWORD,
+              database: env.DATABASE,
+            }
+      return env.CLIENT === 'pg'
+        ? { client: env.CLIENT, ...connection }
+        : { client: env.CLIENT, ...connection }
+    }
+    case 'sqlite':
+      return {
+        client: env.CLIENT,
+        filename: env.FILENAME,
+      }
+    case 'memory':
+      return {
+        client: env.CLIENT,
+      }
+  }
+}
@@ -1,7 +1,7 @@
-import { number } from 'pertype'
+import { bigint, bool, date, number, object, string } from 'pertype'
 import { MetadataRegistry } from '../metadata'
 import { entity, generate, id } from '../schema'
-import { createRaw } from './raw'
+import { createRaw, getColumnValue, isRawEqual } from './raw'
 
 describe('createRaw', () => {
   const foreignOne = entity('foreign_one', {
@@ -36,11 +36,11 @@ describe('createRaw', () => {
       expect(data).toHaveProperty('id', undefined)
     })
 
-    it('Should return value converted into string', () => {
+    it('Should return value converted into column type', () => {
       const data = createRaw(table, {
-        id: 1,
+        id: '1',
       })
-      expect(data).toHaveProperty('id', '1')
+      expect(data).toHaveProperty('id', 1)
     })
   })
 
@@ -73,9 +73,9 @@ describe('createRaw', () => {
         ids: [1, 2, 3],
       })
       expect(data).toHaveProperty('ids')
-      expect(data).toHaveProperty('ids.0', '1')
-      expect(data).toHaveProperty('ids.1', '2')
-      expect(data).toHaveProperty('ids.2', '3')
+      expect(data).toHaveProperty('ids.0', 1)
+      expect(data).toHaveProperty('ids.1', 2)
+      expect(data).toHaveProperty('ids.2', 3)
     })
   })
 
@@ -92,7 +92,7 @@ describe('createRaw', () => {
         foreign: { id: 1 },
       })
       expect(data).toHaveProperty('foreign')
-      expect(data).toHaveProperty('foreign.id', '1')
+      expect(data).toHaveProperty('foreign.id', 1)
     })
   })
 
@@ -126,11 +126,83 @@ describe('createRaw', () => {
       })
       expect(data).toHaveProperty('foreigns')
       expect(data).toHaveProperty('foreigns.0')
-      expect(data).toHaveProperty('foreigns.0.id', '1')
+      expect(data).toHaveProperty('foreigns.0.id', 1)
       expect(data).toHaveProperty('foreigns.1')
-      expect(data).toHaveProperty('foreigns.1.id', '2')
+      expect(data).toHaveProperty('foreigns.1.id', 2)
       expect(data).toHaveProperty('foreigns.2')
-      expect(data).toHaveProperty('foreigns.2.id', '3')
+      expect(data).toHaveProperty('foreigns.2.id', 3)
     })
   })
+
+  describe('Raw Typed Value', () => {
+    const typed = new MetadataRegistry().get(
+      entity('typed', {
+        id: number().decorate(id()),
+        flag: bool(),
+        count: bigint(),
+        createdAt: date(),
+        data: object({ name: string() }),
+      }),
+    )
+
+    it('Should convert database value into column type', () => {
+      const data = createRaw(typed, {
+        flag: 1,
+        count: '9007199254740993',
+        createdAt: 0,
+        data: '{"name":"a"}',
+      })
+      expect(data).toStrictEqual({
+        flag: true,
+        count: BigInt('9007199254740993'),
+        createdAt: new Date(0),
+        data: { name: 'a' },
+      })
+    })
+
+    it('Should throw when number column value is not a number', () => {
+      expect(() => createRaw(table, { id: 'abc' })).toThrow(
+        'Cannot convert value of column "id" into number',
+      )
+      expect(() => createRaw(table, { id: '' })).toThrow()
+      expect(createRaw(table, { id: '1.5' })).toStrictEqual({ id: 1.5 })
+    })
+
+    it('Should throw when JSON column value is not JSON', () => {
+      expect(() => createRaw(typed, { data: new Date(0) })).toThrow()
+      expect(() => createRaw(typed, { data: Buffer.from('{}') })).not.toThrow()
+      expect(createRaw(typed, { data: [1] })).toStrictEqual({ data: [1] })
+    })
+
+    it('Should convert raw value into column value', () => {
+      expect(getColumnValue(typed.column('data')!, { name: 'a' })).toBe(
+        '{"name":"a"}',
+      )
+      expect(getColumnValue(typed.column('count')!, BigInt(1))).toBe('1')
+      expect(getColumnValue(typed.column('flag')!, undefined)).toBe(null)
+    })
+  })
+})
+
+describe('isRawEqual', () => {
+  it('Should compare date by its time', () => {
+    expect(isRawEqual(new Date(0), new Date(0))).toBe(true)
+    expect(isRawEqual(new Date(0), new Date(1))).toBe(false)
+  })
+
+  it('Should compare buffer by its bytes', () => {
+    expect(isRawEqual(Buffer.from('a'), Buffer.from('a'))).toBe(true)
+    expect(isRawEqual(Buffer.from('a'), Buffer.from('b'))).toBe(false)
+  })
+
+  it('Should compare JSON by its content', () => {
+    expect(isRawEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+    expect(isRawEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+    expect(isRawEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+  })
+
+  it('Should compare value of different type as not equal', () => {
+    expect(isRawEqual(1, '1')).toBe(false)
+    expect(isRawEqual(undefined, null)).toBe(false)
+  })
 })
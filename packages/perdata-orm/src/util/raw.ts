@@ -1,7 +1,19 @@
-import { AnyRecord, Key, string } from 'pertype'
-import { TableMetadata } from '../metadata'
+import { Knex } from 'knex'
+import { AnyRecord, Key } from 'pertype'
+import { ColumnMetadata, TableMetadata } from '../metadata'
 
-export type RawSingleValue = string | undefined
+/** Value of JSON column, either an object or an array */
+export type RawJson = { [key: string]: unknown } | unknown[]
+export type RawScalar =
+  | string
+  | number
+  | boolean
+  | bigint
+  | Date
+  | Buffer
+  | RawJson
+
+export type RawSingleValue = RawScalar | undefined
 export type RawMultiValue = RawSingleValue[] | undefined
 export type RawValue = RawSingleValue | RawMultiValue
 
@@ -11,20 +23,93 @@ export type RawRelation = RawSingleObject | RawMultiObject
 
 export type Raw = RawValue | RawRelation
 
-function getRawSingleValue(value: unknown): RawSingleValue {
-  return string().nullable().optional().decode(value) ?? undefined
+/**
+ * Convert value into raw value of given column type. Value may come from
+ * database, e.g. JSON as string or date as number, or from decoded entity
+ */
+function getRawSingleValue(
+  column: ColumnMetadata,
+  value: unknown,
+): RawSingleValue {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  switch (column.valueType) {
+    case 'string':
+      return Buffer.isBuffer(value) ? value.toString() : String(value)
+    case 'number':
+      if (typeof value === 'number') {
+        return value
+      } else if (
+        (typeof value === 'string' && value.trim() !== '') ||
+        typeof value === 'bigint'
+      ) {
+        const number = Number(value)
+        if (!Number.isNaN(number)) {
+          return number
+        }
+      }
+      break
+    case 'boolean':
+      return typeof value === 'string'
+        ? value === 'true' || value === '1'
+        : Boolean(value)
+    case 'bigint':
+      if (
+        typeof value === 'bigint' ||
+        typeof value === 'string' ||
+        typeof value === 'number'
+      ) {
+        return BigInt(value)
+      }
+      break
+    case 'date':
+      if (value instanceof Date) {
+        return value
+      } else if (typeof value === 'string' || typeof value === 'number') {
+        return new Date(value)
+      }
+      break
+    case 'object':
+      if (typeof value === 'string' || Buffer.isBuffer(value)) {
+        return JSON.parse(value.toString())
+      } else if (isJsonObject(value) || Array.isArray(value)) {
+        return value
+      }
+      break
+    default:
+      if (isRawScalar(value)) {
+        return value
+      }
+  }
+  throw new Error(
+    `Cannot convert value of column "${column.name}" into ${column.valueType}`,
+  )
 }
 
-function getRawMultiValue(value: unknown): RawMultiValue {
-  const decoded =
-    string()
-      .nullable()
-      .optional()
-      .array()
-      .nullable()
-      .optional()
-      .decode(value) ?? undefined
-  return decoded?.map((item) => item ?? undefined)
+function isRawScalar(value: unknown): value is RawScalar {
+  return (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    typeof value === 'bigint' ||
+    (typeof value === 'object' && value !== null)
+  )
+}
+
+function getRawMultiValue(
+  column: ColumnMetadata,
+  value: unknown,
+): RawMultiValue {
+  // database without array type may store collection as JSON
+  const values = typeof value === 'string' ? JSON.parse(value) : value
+  if (values === undefined || values === null) {
+    return undefined
+  } else if (Array.isArray(values)) {
+    return values.map((item) => getRawSingleValue(column, item))
+  }
+  throw new Error(`Cannot convert value of column "${column.name}" into array`)
 }
 
 function getRawSingleObject(
@@ -41,16 +126,16 @@ function getRawSingleObject(
       .filter((column) => Object.hasOwn(value, column.name))
       .forEach((column) => {
         data[column.name] = column.collection
-          ? getRawMultiValue(value[column.name])
-          : getRawSingleValue(value[column.name])
+          ? getRawMultiValue(column, value[column.name])
+          : getRawSingleValue(column, value[column.name])
       })
     table.relationColumns
       .filter((column) => Object.hasOwn(value, column.name))
       .forEach(
         (column) =>
           (data[column.name] = column.collection
-            ? getRawMultiObject(table, value[column.name])
-            : getRawSingleObject(table, value[column.name])),
+            ? getRawMultiObject(column.foreignTable, value[column.name])
+            : getRawSingleObject(column.foreignTable, value[column.name])),
       )
     return data
   }
@@ -82,3 +167,102 @@ export function createRaw(
 ): RawSingleObject {
   return getRawSingleObject(table, value)
 }
+
+/**
+ * Convert column value into raw value of given column
+ *
+ * @param column {@link ColumnMetadata} of the value
+ * @param value Value read from database or decoded entity
+ * @returns Raw value
+ */
+export function createRawValue(
+  column: ColumnMetadata,
+  value: unknown,
+): RawValue {
+  return column.collection
+    ? getRawMultiValue(column, value)
+    : getRawSingleValue(column, value)
+}
+
+/**
+ * Convert raw value into value written into database column. JSON is written
+ * as string since not every driver serialize it, so does bigint
+ *
+ * @param column {@link ColumnMetadata} of the value
+ * @param value Raw value to be converted
+ * @returns Column value, null if value is not set
+ */
+export function getColumnValue(
+  column: ColumnMetadata,
+  value: RawSingleValue,
+): Knex.Value {
+  if (value === undefined) {
+    return null
+  } else if (column.valueType === 'object' || Array.isArray(value)) {
+    return JSON.stringify(value)
+  } else if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  return value
+}
+
+/**
+ * Convert value of given column into value written into database column,
+ * collection is converted item by item
+ *
+ * @param column {@link ColumnMetadata} of the value
+ * @param value Encoded value of the column
+ * @returns Column value, null if value is not set
+ */
+export function createColumnValue(
+  column: ColumnMetadata,
+  value: unknown,
+): Knex.Value | Knex.Value[] {
+  return column.collection
+    ? (getRawMultiValue(column, value)?.map((item) =>
+        getColumnValue(column, item),
+      ) ?? null)
+    : getColumnValue(column, getRawSingleValue(column, value))
+}
+
+/**
+ * Compare raw values structurally, dates are compared by its time, buffers by
+ * its bytes, and JSON by its content
+ *
+ * @returns True if both values are equal
+ */
+export function isRawEqual(value1: unknown, value2: unknown): boolean {
+  if (value1 === value2) {
+    return true
+  } else if (value1 instanceof Date && value2 instanceof Date) {
+    return value1.getTime() === value2.getTime()
+  } else if (Buffer.isBuffer(value1) && Buffer.isBuffer(value2)) {
+    return value1.equals(value2)
+  } else if (Array.isArray(value1) && Array.isArray(value2)) {
+    return (
+      value1.length === value2.length &&
+      value1.every((item, index) => isRawEqual(item, value2[index]))
+    )
+  } else if (isJsonObject(value1) && isJsonObject(value2)) {
+    const keys1 = Object.keys(value1)
+    const keys2 = Object.keys(value2)
+    return (
+      keys1.length === keys2.length &&
+      keys1.every(
+        (key) =>
+          Object.hasOwn(value2, key) && isRawEqual(value1[key], value2[key]),
+      )
+    )
+  }
+  return false
+}
+
+function isJsonObject(value: unknown): value is { [key: string]: unknown } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value)
+  )
+}